@@ -238,6 +238,58 @@ async function main() {
     }
   }
 
+  // Seed achievement definitions (the badges that used to be hard-coded)
+  console.log('\n🏆 Creating achievement definitions...');
+
+  const achievements = [
+    {
+      key: 'first_module',
+      name: 'First Steps',
+      description: 'Complete your first module',
+      icon: '🎓',
+      criteria: [{ metric: 'modulesCompleted', min: 1 }],
+    },
+    {
+      key: 'module_master',
+      name: 'Module Master',
+      description: 'Complete 10 modules',
+      icon: '📚',
+      criteria: [{ metric: 'modulesCompleted', min: 10 }],
+    },
+    {
+      key: 'week_warrior',
+      name: 'Week Warrior',
+      description: 'Keep a 7-day learning streak',
+      icon: '🔥',
+      criteria: [{ metric: 'streak', min: 7 }],
+    },
+    {
+      key: 'level_10',
+      name: 'Level 10',
+      description: 'Reach level 10',
+      icon: '⭐',
+      criteria: [{ metric: 'level', min: 10 }],
+    },
+    {
+      key: 'point_collector',
+      name: 'Point Collector',
+      description: 'Hold 1000 points',
+      icon: '💎',
+      criteria: [{ metric: 'totalPoints', min: 1000 }],
+    },
+  ];
+
+  for (const achievement of achievements) {
+    const existing = await prisma.achievementDefinition.findUnique({
+      where: { key: achievement.key },
+    });
+
+    if (!existing) {
+      await prisma.achievementDefinition.create({ data: achievement });
+      console.log(`  ✅ Achievement "${achievement.name}" created`);
+    }
+  }
+
   console.log('\n✨ Database seed completed successfully!');
 }
 
@@ -0,0 +1,15 @@
+-- Achievements are unique per user and badge. Databases from before that constraint
+-- can hold duplicates, which would make `prisma db push` fail, so `npm run db:push`
+-- runs this first and keeps the earliest award of each badge. Does nothing on a new
+-- database or once the duplicates are gone.
+
+DO $$
+BEGIN
+    IF to_regclass('achievements') IS NOT NULL THEN
+        DELETE FROM "achievements" a
+        USING "achievements" b
+        WHERE a."user_id" = b."user_id"
+          AND a."badge_name" = b."badge_name"
+          AND (a."earned_at", a."id") > (b."earned_at", b."id");
+    END IF;
+END $$;
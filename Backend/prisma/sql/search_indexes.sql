@@ -0,0 +1,31 @@
+-- Full-text search indexes. Prisma cannot express expression indexes, so they live
+-- here instead of schema.prisma and `prisma db push` drops them; `npm run db:push`
+-- reapplies this file after every push. The expressions must stay identical to the
+-- documents in searchService.
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "modules_search_idx" ON "modules" USING GIN ((
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C') ||
+    setweight(jsonb_to_tsvector('english', coalesce("content_blocks", '[]'), '["string"]'), 'C')
+));
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "courses_search_idx" ON "courses" USING GIN ((
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C') ||
+    setweight(jsonb_to_tsvector('english', coalesce("content_blocks", '[]'), '["string"]'), 'C')
+));
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "products_search_idx" ON "products" USING GIN ((
+    setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("description", '')), 'B')
+));
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "users_bio_search_idx" ON "users" USING GIN ((to_tsvector('english', coalesce("bio", ''))));
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "chat_messages_search_idx" ON "chat_messages" USING GIN ((to_tsvector('english', "message_text")));
@@ -2,6 +2,29 @@ import { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
+import { Difficulty, Prisma, RevisionEntity } from '@prisma/client';
+import {
+  accountStatusService,
+  achievementService,
+  adminService,
+  analyticsService,
+  certificateService,
+  contentService,
+  couponService,
+  learningPathService,
+  moduleService,
+  orderService,
+  paymentService,
+  pointsService,
+  prerequisiteService,
+  progressionService,
+  questionBankService,
+  quizFormatService,
+  quizService,
+  revisionService,
+} from '../services';
+import { QuizFormat } from '../types/quiz';
+import { NotFoundError } from '../utils/errors';
 
 // Dashboard & Analytics
 export const getDashboard = asyncHandler(async (_req: Request, res: Response) => {
@@ -68,7 +91,7 @@ export const getLogs = asyncHandler(async (req: Request, res: Response) => {
 
 // User Management
 export const getAllUsers = asyncHandler(async (req: Request, res: Response) => {
-  const { page = '1', limit = '20', search } = req.query;
+  const { page = '1', limit = '20', search, status } = req.query;
   const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
   
   const where: any = {};
@@ -78,6 +101,9 @@ export const getAllUsers = asyncHandler(async (req: Request, res: Response) => {
       { email: { contains: search as string, mode: 'insensitive' } },
     ];
   }
+  if (status) {
+    where.status = status;
+  }
   
   const [users, total] = await Promise.all([
     prisma.user.findMany({
@@ -91,6 +117,8 @@ export const getAllUsers = asyncHandler(async (req: Request, res: Response) => {
         avatarUrl: true,
         totalPoints: true,
         level: true,
+        status: true,
+        statusExpiresAt: true,
         createdAt: true,
       },
       orderBy: { createdAt: 'desc' },
@@ -159,12 +187,7 @@ export const createUser = asyncHandler(async (req: Request, res: Response) => {
 
 export const updateUser = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
-  const updates = req.body;
-  
-  const user = await prisma.user.update({
-    where: { id },
-    data: updates,
-  });
+  const user = await adminService.updateUser(id, req.body, req.user!.id);
   
   logger.info(`Admin ${req.user!.id} updated user ${id}`);
   
@@ -192,19 +215,28 @@ export const deleteUser = asyncHandler(async (req: Request, res: Response) => {
 
 export const banUser = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
-  const { reason } = req.body;
+  const { reason, duration } = req.body;
+  
+  const user = await accountStatusService.ban(id, {
+    reason,
+    durationHours: duration ? parseInt(duration) : undefined,
+    issuedById: req.user!.id,
+  });
   
   logger.warn(`Admin ${req.user!.id} banned user ${id}: ${reason}`);
   
   res.status(200).json({
     success: true,
     message: 'User banned',
+    data: user,
   });
 });
 
 export const unbanUser = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
   
+  await accountStatusService.restore(id, 'BANNED', req.user!.id);
+  
   logger.info(`Admin ${req.user!.id} unbanned user ${id}`);
   
   res.status(200).json({
@@ -215,19 +247,28 @@ export const unbanUser = asyncHandler(async (req: Request, res: Response) => {
 
 export const suspendUser = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
-  const { reason } = req.body;
+  const { reason, duration } = req.body;
+  
+  const user = await accountStatusService.suspend(id, {
+    reason,
+    durationHours: duration ? parseInt(duration) : undefined,
+    issuedById: req.user!.id,
+  });
   
   logger.warn(`Admin ${req.user!.id} suspended user ${id}: ${reason}`);
   
   res.status(200).json({
     success: true,
     message: 'User suspended',
+    data: user,
   });
 });
 
 export const activateUser = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
   
+  await accountStatusService.restore(id, 'SUSPENDED', req.user!.id);
+  
   logger.info(`Admin ${req.user!.id} activated user ${id}`);
   
   res.status(200).json({
@@ -236,6 +277,128 @@ export const activateUser = asyncHandler(async (req: Request, res: Response) =>
   });
 });
 
+export const getUserPoints = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  const { page = '1', limit = '20' } = req.query;
+  
+  const ledger = await pointsService.getLedger(id, parseInt(page as string), parseInt(limit as string));
+  
+  res.status(200).json({
+    success: true,
+    data: ledger,
+  });
+});
+
+export const adjustUserPoints = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  const { amount, note } = req.body;
+  
+  const entry = await progressionService.adjustPoints(id, amount, req.user!.id, note);
+  await achievementService.evaluate(id, 'points_changed');
+  
+  res.status(201).json({
+    success: true,
+    message: 'Points adjusted',
+    data: entry,
+  });
+});
+
+export const getLevelCurve = asyncHandler(async (_req: Request, res: Response) => {
+  res.status(200).json({
+    success: true,
+    data: progressionService.getCurve(),
+  });
+});
+
+export const recomputeLevels = asyncHandler(async (req: Request, res: Response) => {
+  const result = await progressionService.recomputeAllLevels();
+  
+  logger.info(`Admin ${req.user!.id} recomputed user levels`);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Levels recomputed',
+    data: result,
+  });
+});
+
+// Achievement Definitions
+export const getAchievementDefinitions = asyncHandler(async (req: Request, res: Response) => {
+  const { page = '1', limit = '50', active } = req.query;
+  
+  const result = await achievementService.getDefinitions(
+    parseInt(page as string),
+    parseInt(limit as string),
+    active === undefined ? undefined : active === 'true'
+  );
+  
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+export const createAchievementDefinition = asyncHandler(async (req: Request, res: Response) => {
+  const definition = await achievementService.createDefinition(req.body);
+  
+  logger.info(`Admin ${req.user!.id} created achievement ${definition.key}`);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Achievement created and queued for backfill',
+    data: definition,
+  });
+});
+
+export const updateAchievementDefinition = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const definition = await achievementService.updateDefinition(id, req.body);
+  
+  logger.info(`Admin ${req.user!.id} updated achievement ${definition.key}`);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Achievement updated',
+    data: definition,
+  });
+});
+
+export const deleteAchievementDefinition = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const { deleted } = await achievementService.deleteDefinition(id);
+  
+  logger.info(`Admin ${req.user!.id} ${deleted ? 'deleted' : 'deactivated'} achievement ${id}`);
+  
+  res.status(200).json({
+    success: true,
+    message: deleted ? 'Achievement deleted' : 'Achievement was already earned and was deactivated instead',
+  });
+});
+
+export const backfillAchievement = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  await achievementService.requestBackfill(id);
+  
+  res.status(202).json({
+    success: true,
+    message: 'Achievement queued for backfill',
+  });
+});
+
+export const getUserStatusHistory = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const history = await accountStatusService.getHistory(id);
+  
+  res.status(200).json({
+    success: true,
+    data: history,
+  });
+});
+
 export const assignRole = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
   const { role } = req.body;
@@ -489,6 +652,12 @@ export const getOrderDetails = asyncHandler(async (req: Request, res: Response)
     where: { id },
     include: {
       user: true,
+      payments: {
+        include: { refunds: true },
+      },
+      statusHistory: {
+        orderBy: { createdAt: 'asc' },
+      },
     },
   });
   
@@ -507,11 +676,12 @@ export const getOrderDetails = asyncHandler(async (req: Request, res: Response)
 
 export const updateOrderStatus = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
-  const { status } = req.body;
+  const { status, note, trackingNumber } = req.body;
   
-  const order = await prisma.order.update({
-    where: { id },
-    data: { status },
+  const order = await orderService.transition(id, status, {
+    changedById: req.user!.id,
+    note,
+    trackingNumber,
   });
   
   logger.info(`Admin ${req.user!.id} updated order ${id} status to ${status}`);
@@ -523,6 +693,25 @@ export const updateOrderStatus = asyncHandler(async (req: Request, res: Response
   });
 });
 
+export const refundOrder = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  const { amount, reason } = req.body;
+  
+  const payment = await paymentService.refundOrder(id, {
+    amount: amount !== undefined ? Number(amount) : undefined,
+    reason,
+    issuedById: req.user!.id,
+  });
+  
+  logger.info(`Admin ${req.user!.id} refunded order ${id}`);
+  
+  res.status(200).json({
+    success: true,
+    message: payment.status === 'REFUNDED' ? 'Order refunded' : 'Order partially refunded',
+    data: payment,
+  });
+});
+
 export const getProductStats = asyncHandler(async (_req: Request, res: Response) => {
   const stats = await prisma.product.aggregate({
     _sum: { stock: true },
@@ -537,25 +726,104 @@ export const getProductStats = asyncHandler(async (_req: Request, res: Response)
 });
 
 export const getOrderStats = asyncHandler(async (_req: Request, res: Response) => {
-  const [totalOrders, revenue] = await Promise.all([
+  const [totalOrders, revenue, discounts, byCoupon] = await Promise.all([
     prisma.order.count(),
     prisma.order.aggregate({
       _sum: { totalPrice: true },
     }),
+    prisma.couponRedemption.aggregate({
+      _sum: { discount: true },
+      _count: true,
+    }),
+    prisma.couponRedemption.groupBy({
+      by: ['couponId'],
+      _sum: { discount: true },
+      _count: true,
+    }),
   ]);
   
+  const coupons = await prisma.coupon.findMany({
+    where: { id: { in: byCoupon.map((entry) => entry.couponId) } },
+    select: { id: true, code: true },
+  });
+  const codes = new Map(coupons.map((coupon) => [coupon.id, coupon.code]));
+  
   res.status(200).json({
     success: true,
     data: {
       totalOrders,
       revenue: revenue._sum?.totalPrice || 0,
+      discounts: {
+        total: discounts._sum?.discount || 0,
+        ordersWithCoupon: discounts._count,
+        byCoupon: byCoupon.map((entry) => ({
+          code: codes.get(entry.couponId),
+          redemptions: entry._count,
+          total: entry._sum.discount || 0,
+        })),
+      },
     },
   });
 });
 
+// Coupon Management
+export const getCoupons = asyncHandler(async (req: Request, res: Response) => {
+  const { page = '1', limit = '20', active } = req.query;
+  
+  const result = await couponService.getCoupons(
+    parseInt(page as string),
+    parseInt(limit as string),
+    active === undefined ? undefined : active === 'true'
+  );
+  
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+export const createCoupon = asyncHandler(async (req: Request, res: Response) => {
+  const coupon = await couponService.createCoupon(req.body);
+  
+  logger.info(`Admin ${req.user!.id} created coupon ${coupon.code}`);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Coupon created',
+    data: coupon,
+  });
+});
+
+export const updateCoupon = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const coupon = await couponService.updateCoupon(id, req.body);
+  
+  logger.info(`Admin ${req.user!.id} updated coupon ${coupon.code}`);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Coupon updated',
+    data: coupon,
+  });
+});
+
+export const deleteCoupon = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const { deleted } = await couponService.deleteCoupon(id);
+  
+  logger.info(`Admin ${req.user!.id} ${deleted ? 'deleted' : 'deactivated'} coupon ${id}`);
+  
+  res.status(200).json({
+    success: true,
+    message: deleted ? 'Coupon deleted' : 'Coupon has redemptions and was deactivated instead',
+  });
+});
+
 // Module Management
 export const getAllModules = asyncHandler(async (req: Request, res: Response) => {
-  const { page = '1', limit = '20', search, category } = req.query;
+  const { page = '1', limit = '20', search, category, status } = req.query;
   const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
   
   const where: any = {};
@@ -565,6 +833,9 @@ export const getAllModules = asyncHandler(async (req: Request, res: Response) =>
   if (category) {
     where.categoryId = category;
   }
+  if (status) {
+    where.publishStatus = status;
+  }
   
   const [modules, total] = await Promise.all([
     prisma.module.findMany({
@@ -600,10 +871,22 @@ export const getAllModules = asyncHandler(async (req: Request, res: Response) =>
 export const createModule = asyncHandler(async (req: Request, res: Response) => {
   const moduleData = req.body;
   
+  if (moduleData.contentBlocks !== undefined) {
+    moduleData.contentBlocks = moduleData.contentBlocks === null
+      ? Prisma.DbNull
+      : await contentService.prepareBlocks(moduleData.contentBlocks);
+  }
+  
+  // New modules start as drafts unless the admin explicitly chooses otherwise
   const module = await prisma.module.create({
-    data: moduleData,
+    data: {
+      publishStatus: 'DRAFT',
+      ...moduleData,
+    },
   });
   
+  await revisionService.track(RevisionEntity.MODULE, module.id, module, req.user!.id);
+  
   logger.info(`Admin ${req.user!.id} created module ${module.id}`);
   
   res.status(201).json({
@@ -617,11 +900,25 @@ export const updateModule = asyncHandler(async (req: Request, res: Response) =>
   const { id } = req.params as { id: string };
   const updates = req.body;
   
+  if (updates.contentBlocks !== undefined) {
+    updates.contentBlocks = updates.contentBlocks === null
+      ? Prisma.DbNull
+      : await contentService.prepareBlocks(updates.contentBlocks, id);
+  }
+  
+  const existing = await prisma.module.findUnique({ where: { id } });
+  
+  if (!existing) {
+    throw new NotFoundError('Module not found');
+  }
+  
   const module = await prisma.module.update({
     where: { id },
     data: updates,
   });
   
+  await revisionService.track(RevisionEntity.MODULE, id, module, req.user!.id, existing);
+  
   logger.info(`Admin ${req.user!.id} updated module ${id}`);
   
   res.status(200).json({
@@ -646,6 +943,53 @@ export const deleteModule = asyncHandler(async (req: Request, res: Response) =>
   });
 });
 
+export const createLesson = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  const { title, lessonNumber, content, contentBlocks, duration } = req.body;
+  
+  const lesson = await moduleService.createLesson(
+    id,
+    { title, lessonNumber, content, contentBlocks, duration },
+    req.user!.id
+  );
+  
+  res.status(201).json({
+    success: true,
+    message: 'Lesson created',
+    data: lesson,
+  });
+});
+
+export const updateLesson = asyncHandler(async (req: Request, res: Response) => {
+  const { id, lessonId } = req.params as { id: string; lessonId: string };
+  const { title, lessonNumber, content, contentBlocks, duration } = req.body;
+  
+  const lesson = await moduleService.updateLesson(id, lessonId, {
+    title,
+    lessonNumber,
+    content,
+    contentBlocks,
+    duration,
+  }, req.user!.id);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Lesson updated',
+    data: lesson,
+  });
+});
+
+export const deleteLesson = asyncHandler(async (req: Request, res: Response) => {
+  const { id, lessonId } = req.params as { id: string; lessonId: string };
+  
+  await moduleService.deleteLesson(id, lessonId);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Lesson deleted',
+  });
+});
+
 export const getModuleEnrollments = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
   const { page = '1', limit = '20' } = req.query;
@@ -675,23 +1019,45 @@ export const getModuleEnrollments = asyncHandler(async (req: Request, res: Respo
 
 export const publishModule = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
+  const { publishAt } = req.body;
   
-  logger.info(`Admin ${req.user!.id} published module ${id}`);
+  const module = await moduleService.publishModule(id, publishAt ? new Date(publishAt) : undefined);
+  const scheduled = module.publishAt && module.publishAt > new Date();
+  
+  logger.info(`Admin ${req.user!.id} ${scheduled ? 'scheduled' : 'published'} module ${id}`);
   
   res.status(200).json({
     success: true,
-    message: 'Module published',
+    message: scheduled ? 'Module scheduled for publishing' : 'Module published',
+    data: module,
   });
 });
 
 export const unpublishModule = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
   
+  const module = await moduleService.unpublishModule(id);
+  
   logger.info(`Admin ${req.user!.id} unpublished module ${id}`);
   
   res.status(200).json({
     success: true,
     message: 'Module unpublished',
+    data: module,
+  });
+});
+
+export const archiveModule = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const module = await moduleService.archiveModule(id);
+  
+  logger.info(`Admin ${req.user!.id} archived module ${id}`);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Module archived',
+    data: module,
   });
 });
 
@@ -714,6 +1080,52 @@ export const getModuleStats = asyncHandler(async (_req: Request, res: Response)
   });
 });
 
+export const getModuleDetailStats = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const module = await prisma.module.findUnique({
+    where: { id },
+    select: { id: true, title: true, quizzes: { select: { id: true } } },
+  });
+  
+  if (!module) {
+    throw new NotFoundError('Module not found');
+  }
+  
+  const [stats, quizzes] = await Promise.all([
+    analyticsService.getModuleStats(id),
+    Promise.all(module.quizzes.map((quiz) => analyticsService.getQuizItemAnalysis(quiz.id))),
+  ]);
+  
+  res.status(200).json({
+    success: true,
+    data: { ...stats, title: module.title, quizzes },
+  });
+});
+
+export const getModulePrerequisites = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const prerequisites = await prerequisiteService.getPrerequisites(id);
+  
+  res.status(200).json({
+    success: true,
+    data: prerequisites,
+  });
+});
+
+export const setModulePrerequisites = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const prerequisites = await prerequisiteService.setPrerequisites(id, req.body.prerequisites);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Prerequisites updated',
+    data: prerequisites,
+  });
+});
+
 export const createCategory = asyncHandler(async (req: Request, res: Response) => {
   const { title, description, category } = req.body;
   
@@ -721,6 +1133,8 @@ export const createCategory = asyncHandler(async (req: Request, res: Response) =
     data: { title, description, category },
   });
   
+  await revisionService.track(RevisionEntity.MODULE, newModule.id, newModule, req.user!.id);
+  
   logger.info(`Admin ${req.user!.id} created category ${newModule.id}`);
   
   res.status(201).json({
@@ -732,13 +1146,21 @@ export const createCategory = asyncHandler(async (req: Request, res: Response) =
 
 export const updateCategory = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
-  const updates = req.body;
+  const { title, description, category: name } = req.body;
+  
+  const existing = await prisma.module.findUnique({ where: { id } });
+  
+  if (!existing) {
+    throw new NotFoundError('Category not found');
+  }
   
   const category = await prisma.module.update({
     where: { id },
-    data: updates,
+    data: { title, description, category: name },
   });
   
+  await revisionService.track(RevisionEntity.MODULE, id, category, req.user!.id, existing);
+  
   logger.info(`Admin ${req.user!.id} updated category ${id}`);
   
   res.status(200).json({
@@ -748,6 +1170,404 @@ export const updateCategory = asyncHandler(async (req: Request, res: Response) =
   });
 });
 
+// Quiz Management
+export const getQuizzes = asyncHandler(async (req: Request, res: Response) => {
+  const { moduleId } = req.query;
+  
+  const quizzes = await quizService.getQuizzes(moduleId as string | undefined);
+  
+  res.status(200).json({
+    success: true,
+    data: quizzes,
+  });
+});
+
+export const createQuiz = asyncHandler(async (req: Request, res: Response) => {
+  const {
+    moduleId,
+    title,
+    questions,
+    timeLimitSeconds,
+    pools,
+    shuffle,
+    passingScore,
+    maxAttempts,
+    cooldownSeconds,
+    scoringPolicy,
+    reviewPolicy,
+  } = req.body;
+  
+  const quiz = await quizService.createQuiz({
+    moduleId,
+    title,
+    questions,
+    timeLimitSeconds,
+    pools,
+    shuffle,
+    passingScore,
+    maxAttempts,
+    cooldownSeconds,
+    scoringPolicy,
+    reviewPolicy,
+  }, req.user!.id);
+  
+  logger.info(`Admin ${req.user!.id} created quiz ${quiz.id}`);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Quiz created',
+    data: quiz,
+  });
+});
+
+export const updateQuiz = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  const {
+    moduleId,
+    title,
+    questions,
+    timeLimitSeconds,
+    pools,
+    shuffle,
+    passingScore,
+    maxAttempts,
+    cooldownSeconds,
+    scoringPolicy,
+    reviewPolicy,
+  } = req.body;
+  
+  const quiz = await quizService.updateQuiz(id, {
+    moduleId,
+    title,
+    questions,
+    timeLimitSeconds,
+    pools,
+    shuffle,
+    passingScore,
+    maxAttempts,
+    cooldownSeconds,
+    scoringPolicy,
+    reviewPolicy,
+  }, req.user!.id);
+  
+  logger.info(`Admin ${req.user!.id} updated quiz ${id}`);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Quiz updated',
+    data: quiz,
+  });
+});
+
+export const importQuiz = asyncHandler(async (req: Request, res: Response) => {
+  const { format, content, moduleId, title, dryRun } = req.body;
+  
+  const report = await quizFormatService.importQuiz({
+    format,
+    content,
+    moduleId,
+    title,
+    dryRun,
+    authorId: req.user!.id,
+  });
+  
+  if (report.quiz) {
+    logger.info(`Admin ${req.user!.id} imported quiz ${report.quiz.id} from ${format}`);
+  }
+  
+  res.status(report.quiz ? 201 : 200).json({
+    success: true,
+    message: report.quiz
+      ? `Imported ${report.questionCount} question(s)`
+      : `Dry run: ${report.questionCount} valid question(s), ${report.errors.length} error(s)`,
+    data: report,
+  });
+});
+
+export const exportQuiz = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params as { id: string };
+  const format = req.query.format as QuizFormat;
+  
+  const { filename, contentType, content } = await quizFormatService.exportQuiz(id, format);
+  
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+  res.send(content);
+});
+
+export const getQuizItemStatistics = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const analysis = await analyticsService.getQuizItemAnalysis(id);
+  const statistics = await quizService.getQuizStatistics(id);
+  
+  res.status(200).json({
+    success: true,
+    data: { ...statistics, ...analysis },
+  });
+});
+
+export const deleteQuiz = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  await quizService.deleteQuiz(id);
+  
+  logger.info(`Admin ${req.user!.id} deleted quiz ${id}`);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Quiz deleted',
+  });
+});
+
+// Question Banks
+export const getQuestionBanks = asyncHandler(async (req: Request, res: Response) => {
+  const { moduleId, topic, difficulty } = req.query as Record<string, string | undefined>;
+  
+  const banks = await questionBankService.getBanks({
+    moduleId,
+    topic,
+    difficulty: difficulty as Difficulty | undefined,
+  });
+  
+  res.status(200).json({
+    success: true,
+    data: banks,
+  });
+});
+
+export const getQuestionBank = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const bank = await questionBankService.getBank(id);
+  
+  res.status(200).json({
+    success: true,
+    data: bank,
+  });
+});
+
+export const createQuestionBank = asyncHandler(async (req: Request, res: Response) => {
+  const { name, description, moduleId, topic, difficulty } = req.body;
+  
+  const bank = await questionBankService.createBank({ name, description, moduleId, topic, difficulty });
+  
+  logger.info(`Admin ${req.user!.id} created question bank ${bank.id}`);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Question bank created',
+    data: bank,
+  });
+});
+
+export const updateQuestionBank = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  const { name, description, moduleId, topic, difficulty } = req.body;
+  
+  const bank = await questionBankService.updateBank(id, { name, description, moduleId, topic, difficulty });
+  
+  res.status(200).json({
+    success: true,
+    message: 'Question bank updated',
+    data: bank,
+  });
+});
+
+export const deleteQuestionBank = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  await questionBankService.deleteBank(id);
+  
+  logger.info(`Admin ${req.user!.id} deleted question bank ${id}`);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Question bank deleted',
+  });
+});
+
+export const addBankQuestions = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const bank = await questionBankService.addQuestions(id, req.body.questions);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Questions added',
+    data: bank,
+  });
+});
+
+export const updateBankQuestion = asyncHandler(async (req: Request, res: Response) => {
+  const { id, questionId } = req.params as { id: string; questionId: string };
+  
+  const question = await questionBankService.updateQuestion(id, questionId, req.body.question);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Question updated',
+    data: question,
+  });
+});
+
+export const deleteBankQuestion = asyncHandler(async (req: Request, res: Response) => {
+  const { id, questionId } = req.params as { id: string; questionId: string };
+  
+  await questionBankService.deleteQuestion(id, questionId);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Question deleted',
+  });
+});
+
+export const getLearningPaths = asyncHandler(async (_req: Request, res: Response) => {
+  const paths = await learningPathService.getPaths(true);
+  
+  res.status(200).json({
+    success: true,
+    data: paths,
+  });
+});
+
+export const getLearningPath = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const path = await learningPathService.getPath(id, undefined, true);
+  
+  res.status(200).json({
+    success: true,
+    data: path,
+  });
+});
+
+export const createLearningPath = asyncHandler(async (req: Request, res: Response) => {
+  const { title, description, difficulty, points, badgeKey, publishStatus, steps } = req.body;
+  
+  const path = await learningPathService.createPath({
+    title,
+    description,
+    difficulty,
+    points,
+    badgeKey,
+    publishStatus,
+    steps,
+  });
+  
+  res.status(201).json({
+    success: true,
+    message: 'Learning path created',
+    data: path,
+  });
+});
+
+export const updateLearningPath = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  const { title, description, difficulty, points, badgeKey, publishStatus, steps } = req.body;
+  
+  const path = await learningPathService.updatePath(id, {
+    title,
+    description,
+    difficulty,
+    points,
+    badgeKey,
+    publishStatus,
+    steps,
+  });
+  
+  res.status(200).json({
+    success: true,
+    message: 'Learning path updated',
+    data: path,
+  });
+});
+
+export const deleteLearningPath = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  await learningPathService.deletePath(id);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Learning path deleted',
+  });
+});
+
+export const getCertificates = asyncHandler(async (req: Request, res: Response) => {
+  const { userId, revoked, page = '1', limit = '20' } = req.query as Record<string, string | undefined>;
+  
+  const result = await certificateService.getCertificates({
+    userId,
+    revoked: revoked === undefined ? undefined : revoked === 'true',
+    page: parseInt(page),
+    limit: parseInt(limit),
+  });
+  
+  res.status(200).json({
+    success: true,
+    data: result,
+  });
+});
+
+export const revokeCertificate = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const certificate = await certificateService.revoke(id, req.user!.id, req.body.reason);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Certificate revoked',
+    data: certificate,
+  });
+});
+
+// Content Revisions
+export const getRevisions = asyncHandler(async (req: Request, res: Response) => {
+  const { entityType, entityId } = req.query as { entityType: RevisionEntity; entityId: string };
+  
+  const revisions = await revisionService.getRevisions(entityType, entityId);
+  
+  res.status(200).json({
+    success: true,
+    data: revisions,
+  });
+});
+
+export const getRevision = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const revision = await revisionService.getRevision(id);
+  
+  res.status(200).json({
+    success: true,
+    data: revision,
+  });
+});
+
+export const compareRevisions = asyncHandler(async (req: Request, res: Response) => {
+  const { from, to } = req.query as { from: string; to: string };
+  
+  const comparison = await revisionService.compare(from, to);
+  
+  res.status(200).json({
+    success: true,
+    data: comparison,
+  });
+});
+
+export const restoreRevision = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const result = await revisionService.restore(id, req.user!.id, req.ip);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Revision restored',
+    data: result,
+  });
+});
+
 // System Operations
 export const backup = asyncHandler(async (req: Request, res: Response) => {
   logger.info(`Admin ${req.user!.id} initiated backup`);
@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { certificateService } from '../services';
+
+export const getMyCertificates = asyncHandler(async (req: Request, res: Response) => {
+  const certificates = await certificateService.getUserCertificates(req.user!.id);
+  
+  res.status(200).json({
+    success: true,
+    data: certificates,
+  });
+});
+
+export const downloadCertificate = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id } = req.params as { id: string };
+  
+  const { filename, content } = await certificateService.renderPdf(req.user!.id, id);
+  
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+  res.send(content);
+});
+
+export const verifyCertificate = asyncHandler(async (req: Request, res: Response) => {
+  const { code } = req.params as { code: string };
+  
+  const verification = await certificateService.verify(code);
+  
+  res.status(200).json({
+    success: true,
+    data: verification,
+  });
+});
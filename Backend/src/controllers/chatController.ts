@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
+import { achievementService } from '../services';
 
 export const getMessages = asyncHandler(async (req: Request, res: Response) => {
   const { page = '1', limit = '50', before, after } = req.query;
@@ -59,6 +60,8 @@ export const sendMessage = asyncHandler(async (req: Request, res: Response) => {
   
   logger.info(`User ${userId} sent message ${message.id}`);
   
+  achievementService.trigger(userId, 'chat_message');
+  
   res.status(201).json({
     success: true,
     message: 'Message sent',
@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { learningPathService } from '../services';
+
+export const getPaths = asyncHandler(async (_req: Request, res: Response) => {
+  const paths = await learningPathService.getPaths();
+  
+  res.status(200).json({
+    success: true,
+    data: paths,
+  });
+});
+
+export const getMyPaths = asyncHandler(async (req: Request, res: Response) => {
+  const paths = await learningPathService.getUserPaths(req.user!.id);
+  
+  res.status(200).json({
+    success: true,
+    data: paths,
+  });
+});
+
+export const getPath = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const path = await learningPathService.getPath(id, req.user?.id);
+  
+  res.status(200).json({
+    success: true,
+    data: path,
+  });
+});
+
+export const enroll = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const path = await learningPathService.enroll(req.user!.id, id);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Enrolled in learning path',
+    data: path,
+  });
+});
+
+export const unenroll = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  await learningPathService.unenroll(req.user!.id, id);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Left learning path',
+  });
+});
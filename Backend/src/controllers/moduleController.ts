@@ -2,30 +2,28 @@ import { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
+import {
+  certificateService,
+  moduleService,
+  prerequisiteService,
+  progressService,
+  quizService,
+  recommendationService,
+  trendingService,
+} from '../services';
+import { TrendingWindow } from '../types/trending';
 
 export const getModules = asyncHandler(async (req: Request, res: Response) => {
   const { page = '1', limit = '20', search, level } = req.query;
-  const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
   
-  const where: any = {};
-  if (search) {
-    where.OR = [
-      { title: { contains: search as string, mode: 'insensitive' } },
-      { description: { contains: search as string, mode: 'insensitive' } },
-    ];
-  }
-  if (level) {
-    where.level = level;
-  }
-  
-  const [modules, total] = await Promise.all([
-    prisma.module.findMany({
-      where,
-      skip,
-      take: parseInt(limit as string),
-    }),
-    prisma.module.count({ where }),
-  ]);
+  const { modules, total } = await moduleService.getModules({
+    search: search as string | undefined,
+    difficulty: level as string | undefined,
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    includeUnpublished: moduleService.canPreview(req.user?.role),
+    userId: req.user?.id,
+  });
   
   res.status(200).json({
     success: true,
@@ -51,7 +49,7 @@ export const getModuleById = asyncHandler(async (req: Request, res: Response) =>
     },
   });
   
-  if (!module) {
+  if (!module || (!moduleService.canPreview(req.user?.role) && !moduleService.isVisible(module))) {
     return res.status(404).json({
       success: false,
       message: 'Module not found',
@@ -72,6 +70,7 @@ export const getModulesByCategory = asyncHandler(async (req: Request, res: Respo
   const modules = await prisma.module.findMany({
     where: {
       category: category,
+      ...(moduleService.canPreview(req.user?.role) ? {} : moduleService.visibleWhere()),
     },
     skip,
     take: parseInt(limit as string),
@@ -87,13 +86,16 @@ export const startModule = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const { id } = req.params as { id: string };
   
-  const progress = await prisma.userProgress.create({
-    data: {
-      userId,
-      moduleId: id,
-      status: 'IN_PROGRESS',
-    },
-  });
+  const module = await prisma.module.findUnique({ where: { id } });
+  
+  if (!module || !moduleService.isVisible(module)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Module not found',
+    });
+  }
+  
+  const progress = await progressService.startModule(userId, id);
   
   logger.info(`User ${userId} started module ${id}`);
   
@@ -107,13 +109,24 @@ export const startModule = asyncHandler(async (req: Request, res: Response) => {
 export const getModuleContent = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params as { id: string };
   
-  const lessons = await prisma.course.findMany({
-    where: { moduleId: id },
-  });
+  const module = await prisma.module.findUnique({ where: { id } });
+  
+  if (!module || (!moduleService.canPreview(req.user?.role) && !moduleService.isVisible(module))) {
+    return res.status(404).json({
+      success: false,
+      message: 'Module not found',
+    });
+  }
+  
+  if (!moduleService.canPreview(req.user?.role)) {
+    await prerequisiteService.assertUnlocked(req.user!.id, id);
+  }
+  
+  const content = await moduleService.getModuleContent(id);
   
   return res.status(200).json({
     success: true,
-    data: lessons,
+    data: content,
   });
 });
 
@@ -121,23 +134,74 @@ export const completeModule = asyncHandler(async (req: Request, res: Response) =
   const userId = req.user!.id;
   const { id } = req.params as { id: string };
   
-  await prisma.userProgress.updateMany({
-    where: {
-      userId,
-      moduleId: id,
-    },
-    data: {
-      status: 'COMPLETED',
-      completedAt: new Date(),
-      percentComplete: 100,
-    },
-  });
+  const module = await prisma.module.findUnique({ where: { id } });
+  
+  if (!module || !moduleService.isVisible(module)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Module not found',
+    });
+  }
   
-  logger.info(`User ${userId} completed module ${id}`);
+  await progressService.completeModule(userId, id);
+  const certificate = await certificateService.getForModule(userId, id);
   
   return res.status(200).json({
     success: true,
     message: 'Module completed',
+    data: { certificate },
+  });
+});
+
+export const getModuleProgress = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
+  
+  const progress = await progressService.getModuleProgress(req.user!.id, id);
+  
+  return res.status(200).json({
+    success: true,
+    data: progress,
+  });
+});
+
+export const viewLesson = asyncHandler(async (req: Request, res: Response) => {
+  const { id, lessonId } = req.params as { id: string; lessonId: string };
+  
+  const module = await prisma.module.findUnique({ where: { id } });
+  
+  if (!module || !moduleService.isVisible(module)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Module not found',
+    });
+  }
+  
+  const progress = await progressService.viewLesson(req.user!.id, id, lessonId, req.body.timeSpent);
+  
+  return res.status(200).json({
+    success: true,
+    data: progress,
+  });
+});
+
+export const completeLesson = asyncHandler(async (req: Request, res: Response) => {
+  const { id, lessonId } = req.params as { id: string; lessonId: string };
+  
+  const module = await prisma.module.findUnique({ where: { id } });
+  
+  if (!module || !moduleService.isVisible(module)) {
+    return res.status(404).json({
+      success: false,
+      message: 'Module not found',
+    });
+  }
+  
+  const progress = await progressService.completeLesson(req.user!.id, id, lessonId, req.body.timeSpent);
+  
+  return res.status(200).json({
+    success: true,
+    message: 'Lesson completed',
+    data: progress,
   });
 });
 
@@ -158,7 +222,7 @@ export const getQuizzes = asyncHandler(async (req: Request, res: Response) => {
   
   return res.status(200).json({
     success: true,
-    data: quizzes,
+    data: quizzes.map((quiz) => quizService.toPublicQuiz(quiz)),
   });
 });
 
@@ -178,7 +242,7 @@ export const getQuizById = asyncHandler(async (req: Request, res: Response) => {
   
   return res.status(200).json({
     success: true,
-    data: quiz,
+    data: quizService.toPublicQuiz(quiz),
   });
 });
 
@@ -186,14 +250,7 @@ export const startQuiz = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const { id } = req.params as { id: string };
   
-  const attempt = await prisma.quizResult.create({
-    data: {
-      userId,
-      quizId: id,
-      score: 0,
-      answers: {},
-    },
-  });
+  const attempt = await quizService.startQuiz(userId, id);
   
   logger.info(`User ${userId} started quiz ${id}`);
   
@@ -207,29 +264,15 @@ export const startQuiz = asyncHandler(async (req: Request, res: Response) => {
 export const submitQuiz = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const { id } = req.params as { id: string };
-  const { attemptId } = req.body;
+  const { attemptId, answers, timings } = req.body;
   
-  // Calculate score
-  const quiz = await prisma.quiz.findUnique({
-    where: { id },
-  });
-  
-  if (!quiz) {
-    return res.status(404).json({
-      success: false,
-      message: 'Quiz not found',
-    });
-  }
-  
-  const score = 85; // Placeholder calculation
-  
-  await prisma.quizResult.update({
-    where: { id: attemptId },
-    data: {
-      completedAt: new Date(),
-      score,
-    },
-  });
+  const { score, earnedPoints, maxPoints, passed } = await quizService.submitQuiz(
+    userId,
+    id,
+    attemptId,
+    answers,
+    timings
+  );
   
   logger.info(`User ${userId} submitted quiz ${id} with score ${score}`);
   
@@ -238,7 +281,9 @@ export const submitQuiz = asyncHandler(async (req: Request, res: Response) => {
     message: 'Quiz submitted',
     data: {
       score,
-      passed: score >= 70,
+      earnedPoints,
+      maxPoints,
+      passed,
     },
   });
 });
@@ -247,12 +292,7 @@ export const getQuizResults = asyncHandler(async (req: Request, res: Response) =
   const userId = req.user!.id;
   const { id } = req.params as { id: string };
   
-  const attempts = await prisma.quizResult.findMany({
-    where: {
-      userId,
-      quizId: id,
-    },
-  });
+  const attempts = await quizService.getQuizResults(userId, id);
   
   return res.status(200).json({
     success: true,
@@ -407,25 +447,24 @@ export const joinMeeting = asyncHandler(async (req: Request, res: Response) => {
 });
 
 export const getTrending = asyncHandler(async (req: Request, res: Response) => {
-  const { limit = '10' } = req.query;
+  const { limit = '10', window, category } = req.query;
   
-  const modules = await prisma.module.findMany({
-    take: parseInt(limit as string),
+  const trending = await trendingService.getTrending({
+    window: window as TrendingWindow | undefined,
+    category: category as string | undefined,
+    limit: parseInt(limit as string),
   });
   
   return res.status(200).json({
     success: true,
-    data: modules,
+    data: trending,
   });
 });
 
 export const getRecommended = asyncHandler(async (req: Request, res: Response) => {
   const { limit = '10' } = req.query;
   
-  // Simple recommendation: get popular modules
-  const modules = await prisma.module.findMany({
-    take: parseInt(limit as string),
-  });
+  const modules = await recommendationService.getRecommendations(req.user?.id, parseInt(limit as string));
   
   return res.status(200).json({
     success: true,
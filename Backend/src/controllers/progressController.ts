@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
+import { progressionService, progressService } from '../services';
 
 export const getProgress = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
@@ -20,27 +21,20 @@ export const getProgress = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
-export const getModuleProgress = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+export const getModuleProgress = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const { moduleId } = req.params as { moduleId: string };
   
-  const progress = await prisma.userProgress.findFirst({
-    where: {
-      userId,
-      moduleId,
-    },
-    include: {
-      module: true,
-    },
-  });
+  const progress = await progressService.getModuleProgress(userId, moduleId);
   
-  if (!progress) {
-    res.status(404).json({
-      success: false,
-      message: 'Progress not found',
-    });
-    return;
-  }
+  res.status(200).json({
+    success: true,
+    data: progress,
+  });
+});
+
+export const getLevel = asyncHandler(async (req: Request, res: Response) => {
+  const progress = await progressionService.getProgress(req.user!.id);
   
   res.status(200).json({
     success: true,
@@ -5,7 +5,7 @@ import logger from '../config/logger';
 
 /**
  * Quiz Controller
- * Handles all quiz-related endpoints (8 endpoints)
+ * Handles all quiz-related endpoints (10 endpoints)
  */
 
 // 1. Get all quizzes
@@ -16,7 +16,7 @@ export const getAllQuizzes = asyncHandler(async (req: Request, res: Response) =>
   
   return res.status(200).json({
     success: true,
-    data: quizzes,
+    data: quizzes.map((quiz) => quizService.toPublicQuiz(quiz)),
     pagination: {
       page: parseInt(page as string),
       limit: parseInt(limit as string),
@@ -39,7 +39,7 @@ export const getQuizById = asyncHandler(async (req: Request, res: Response) => {
   
   return res.status(200).json({
     success: true,
-    data: quiz,
+    data: quizService.toPublicQuiz(quiz),
   });
 });
 
@@ -63,9 +63,9 @@ export const startQuizAttempt = asyncHandler(async (req: Request, res: Response)
 export const submitQuizAnswers = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const { id } = req.params as { id: string };
-  const { attemptId, answers } = req.body;
+  const { attemptId, answers, timings } = req.body;
   
-  const result = await quizService.submitQuizAnswers(userId, id, attemptId, answers);
+  const result = await quizService.submitQuizAnswers(userId, id, attemptId, answers, timings);
   
   logger.info(`User ${userId} submitted quiz ${id} with score ${result.score}`);
   
@@ -76,6 +76,21 @@ export const submitQuizAnswers = asyncHandler(async (req: Request, res: Response
   });
 });
 
+// 4b. Save in-progress answers (scored if the attempt times out)
+export const saveQuizAnswers = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const { id, attemptId } = req.params as { id: string; attemptId: string };
+  const { answers, timings } = req.body;
+  
+  const attempt = await quizService.saveAnswers(userId, id, attemptId, answers, timings);
+  
+  return res.status(200).json({
+    success: true,
+    message: 'Answers saved',
+    data: attempt,
+  });
+});
+
 // 5. Get quiz results/attempts
 export const getQuizAttempts = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
@@ -89,16 +104,29 @@ export const getQuizAttempts = asyncHandler(async (req: Request, res: Response)
   });
 });
 
+// 5b. Review a finished attempt (answer key and explanations, per the quiz's review policy)
+export const getAttemptReview = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const { id, attemptId } = req.params as { id: string; attemptId: string };
+  
+  const review = await quizService.getAttemptReview(userId, id, attemptId);
+  
+  return res.status(200).json({
+    success: true,
+    data: review,
+  });
+});
+
 // 6. Get user's best score for a quiz
 export const getBestScore = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   const { id } = req.params as { id: string };
   
-  const bestScore = await quizService.getBestScore(userId, id);
+  const standing = await quizService.getBestScore(userId, id);
   
   return res.status(200).json({
     success: true,
-    data: { bestScore },
+    data: { bestScore: standing.score ?? 0, ...standing },
   });
 });
 
@@ -132,7 +160,9 @@ export default {
   getQuizById,
   startQuizAttempt,
   submitQuizAnswers,
+  saveQuizAnswers,
   getQuizAttempts,
+  getAttemptReview,
   getBestScore,
   getQuizStatistics,
   getQuizLeaderboard,
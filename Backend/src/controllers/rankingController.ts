@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import prisma from '../config/prisma';
+import { achievementService } from '../services';
 
 export const getGlobalRanking = asyncHandler(async (req: Request, res: Response) => {
   const { page = '1', limit = '50' } = req.query;
@@ -176,9 +177,7 @@ export const getRankingByLevel = asyncHandler(async (req: Request, res: Response
 });
 
 export const getAllAchievements = asyncHandler(async (_req: Request, res: Response) => {
-  const achievements = await prisma.achievement.findMany({
-    orderBy: { id: 'desc' },
-  });
+  const achievements = await achievementService.getCatalog();
   
   res.status(200).json({
     success: true,
@@ -189,11 +188,9 @@ export const getAllAchievements = asyncHandler(async (_req: Request, res: Respon
 export const getAchievementById = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { id } = req.params as { id: string };
   
-  const achievement = await prisma.achievement.findUnique({
-    where: { id },
-  });
+  const achievement = await achievementService.getDefinition(id);
   
-  if (!achievement) {
+  if (!achievement.active) {
     res.status(404).json({
       success: false,
       message: 'Achievement not found',
@@ -203,14 +200,19 @@ export const getAchievementById = asyncHandler(async (req: Request, res: Respons
   
   res.status(200).json({
     success: true,
-    data: achievement,
+    data: {
+      id: achievement.id,
+      key: achievement.key,
+      name: achievement.name,
+      description: achievement.description,
+      icon: achievement.icon,
+      points: achievement.points,
+    },
   });
 });
 
-export const getMyBadges = asyncHandler(async (_req: Request, res: Response) => {
-  const badges = await prisma.achievement.findMany({
-    orderBy: { id: 'desc' },
-  });
+export const getMyBadges = asyncHandler(async (req: Request, res: Response) => {
+  const badges = await achievementService.getUserAchievements(req.user!.id);
   
   res.status(200).json({
     success: true,
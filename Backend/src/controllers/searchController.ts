@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { searchService } from '../services';
+import { SearchType } from '../types/search';
+
+export const search = asyncHandler(async (req: Request, res: Response) => {
+  const { q, types, page = '1', limit = '5' } = req.query as Record<string, string | undefined>;
+  
+  const results = await searchService.search(q!, {
+    types: types ? (types.split(',') as SearchType[]) : undefined,
+    page: parseInt(page),
+    limit: parseInt(limit),
+    userId: req.user?.id,
+    role: req.user?.role,
+  });
+  
+  res.status(200).json({
+    success: true,
+    data: results,
+  });
+});
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { asyncHandler } from '../middleware/errorHandler';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
+import { couponService, paymentService, shopService } from '../services';
 
 export const getProducts = asyncHandler(async (req: Request, res: Response) => {
   const { page = '1', limit = '20', search, sort = 'createdAt' } = req.query;
@@ -240,32 +241,47 @@ export const addToCart = asyncHandler(async (req: Request, res: Response): Promi
 export const getCart = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   
-  const cartItems = await prisma.cartItem.findMany({
-    where: { userId },
-    include: {
-      product: {
-        include: {
-          category: true,
-        },
-      },
-    },
-  });
-  
-  const total = cartItems.reduce(
-    (sum, item) => sum + Number(item.product.price) * item.quantity,
-    0
-  );
+  const { items, subtotal, discount, total, coupon, couponError } = await couponService.getCartPricing(userId);
   
   res.status(200).json({
     success: true,
     data: {
-      items: cartItems,
+      items,
+      subtotal,
+      discount,
       total,
-      itemCount: cartItems.length,
+      coupon,
+      couponError,
+      itemCount: items.length,
     },
   });
 });
 
+export const applyCoupon = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const { code } = req.body;
+  
+  const pricing = await couponService.applyToCart(userId, code);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Coupon applied',
+    data: pricing,
+  });
+});
+
+export const removeCoupon = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  
+  const pricing = await couponService.removeFromCart(userId);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Coupon removed',
+    data: pricing,
+  });
+});
+
 export const updateCartItem = asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const userId = req.user!.id;
   const { id } = req.params as { id: string };
@@ -347,55 +363,18 @@ export const clearCart = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
-export const checkout = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+export const checkout = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
+  const idempotencyKey = req.get('Idempotency-Key');
   // Payment method validation would go here in production
   
-  // Get cart items
-  const cartItems = await prisma.cartItem.findMany({
-    where: { userId },
-    include: {
-      product: true,
-    },
-  });
-  
-  if (cartItems.length === 0) {
-    res.status(400).json({
-      success: false,
-      message: 'Cart is empty',
-    });
-    return;
-  }
-  
-  const total = cartItems.reduce(
-    (sum, item) => sum + Number(item.product.price) * item.quantity,
-    0
-  );
-  
-  // Create order
-  const order = await prisma.order.create({
-    data: {
-      userId,
-      totalPrice: total,
-      status: 'PENDING',
-      items: JSON.stringify(cartItems.map((item) => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        price: Number(item.product.price),
-      }))),
-    },
-  });
-  
-  // Clear cart
-  await prisma.cartItem.deleteMany({
-    where: { userId },
-  });
+  const { usePoints } = req.body;
   
-  logger.info(`User ${userId} created order ${order.id}`);
+  const { order, replayed } = await shopService.checkout(userId, { idempotencyKey, usePoints });
   
-  res.status(201).json({
+  res.status(replayed ? 200 : 201).json({
     success: true,
-    message: 'Order created successfully',
+    message: replayed ? 'Order already created' : 'Order created successfully',
     data: order,
   });
 });
@@ -427,6 +406,17 @@ export const getOrderById = asyncHandler(async (req: Request, res: Response): Pr
       id,
       userId,
     },
+    include: {
+      statusHistory: {
+        select: {
+          toStatus: true,
+          note: true,
+          trackingNumber: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
   });
   
   if (!order) {
@@ -443,6 +433,44 @@ export const getOrderById = asyncHandler(async (req: Request, res: Response): Pr
   });
 });
 
+export const createPaymentIntent = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const { id } = req.params as { id: string };
+  
+  const payment = await paymentService.createPaymentIntent(id, userId);
+  
+  res.status(201).json({
+    success: true,
+    message: 'Payment intent created',
+    data: payment,
+  });
+});
+
+export const confirmPayment = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const { id } = req.params as { id: string };
+  const { paymentMethod } = req.body;
+  
+  const payment = await paymentService.confirmPayment(id, userId, paymentMethod);
+  
+  res.status(200).json({
+    success: true,
+    message: payment?.status === 'SUCCEEDED' ? 'Payment succeeded' : 'Payment failed',
+    data: payment,
+  });
+});
+
+export const paymentWebhook = asyncHandler(async (req: Request, res: Response) => {
+  const event = await paymentService.handleWebhook(req.rawBody, req.get('X-Payment-Signature'));
+  
+  logger.info(`Processed payment webhook ${event.type} for ${event.intentId}`);
+  
+  res.status(200).json({
+    success: true,
+    message: 'Webhook processed',
+  });
+});
+
 export const getWishlist = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { userService } from '../services';
+import { achievementService, pointsService, userService } from '../services';
 import { asyncHandler } from '../middleware/errorHandler';
 import logger from '../config/logger';
 import prisma from '../config/prisma';
@@ -71,6 +71,18 @@ export const getUserById = asyncHandler(async (req: Request, res: Response) => {
   });
 });
 
+export const getPointsLedger = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.user!.id;
+  const { page = '1', limit = '20' } = req.query;
+  
+  const ledger = await pointsService.getLedger(userId, parseInt(page as string), parseInt(limit as string));
+  
+  res.status(200).json({
+    success: true,
+    data: ledger,
+  });
+});
+
 export const getSessions = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.user!.id;
   
@@ -103,12 +115,10 @@ export const deleteSession = asyncHandler(async (req: Request, res: Response) =>
   });
 });
 
-export const getUserAchievements = asyncHandler(async (_req: Request, res: Response) => {
-  // User ID from params is available but not used in current implementation
+export const getUserAchievements = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params as { id: string };
   
-  const achievements = await prisma.achievement.findMany({
-    orderBy: { id: 'desc' },
-  });
+  const achievements = await achievementService.getUserAchievements(id);
   
   res.status(200).json({
     success: true,
@@ -0,0 +1,83 @@
+import logger from '../config/logger';
+import {
+  accountStatusService,
+  achievementService,
+  orderService,
+  quizService,
+  trendingService,
+} from '../services';
+
+/**
+ * Background Jobs
+ * Lightweight in-process interval jobs started alongside the HTTP server
+ */
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const jobs: ScheduledJob[] = [
+  {
+    name: 'account-status-expiry',
+    intervalMs: 60 * 1000,
+    run: () => accountStatusService.expireRestrictions(),
+  },
+  {
+    name: 'stock-reservation-expiry',
+    intervalMs: 60 * 1000,
+    run: () => orderService.expireUnpaidOrders(),
+  },
+  {
+    name: 'quiz-attempt-expiry',
+    intervalMs: 60 * 1000,
+    run: () => quizService.expireOverdueAttempts(),
+  },
+  {
+    name: 'achievement-backfill',
+    intervalMs: 5 * 60 * 1000,
+    run: () => achievementService.runBackfill(),
+  },
+  {
+    name: 'trending-refresh',
+    intervalMs: 10 * 60 * 1000,
+    run: () => trendingService.refresh(),
+  },
+];
+
+const timers: NodeJS.Timeout[] = [];
+const running = new Set<string>();
+
+const runJob = async (job: ScheduledJob): Promise<void> => {
+  // Long runs (e.g. a backfill) must not overlap with the next tick
+  if (running.has(job.name)) {
+    return;
+  }
+
+  running.add(job.name);
+  try {
+    await job.run();
+  } catch (error) {
+    logger.error(`Job ${job.name} failed:`, error);
+  } finally {
+    running.delete(job.name);
+  }
+};
+
+// Start all scheduled jobs
+export const startJobs = (): void => {
+  jobs.forEach((job) => {
+    const timer = setInterval(() => runJob(job), job.intervalMs);
+    timer.unref();
+    timers.push(timer);
+  });
+
+  logger.info(`Started ${jobs.length} background job(s)`);
+};
+
+// Stop all scheduled jobs
+export const stopJobs = (): void => {
+  timers.forEach((timer) => clearInterval(timer));
+  timers.length = 0;
+};
@@ -1,4 +1,4 @@
-import express, { Application } from 'express';
+import express, { Application, Request } from 'express';
 import helmet from 'helmet';
 import cors from 'cors';
 import compression from 'compression';
@@ -24,11 +24,29 @@ app.use(
   cors({
     origin: process.env.CORS_ORIGIN?.split(',') || 'http://localhost:3000',
     credentials: true,
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Requested-With',
+      'Accept',
+      'Origin',
+      'Idempotency-Key',
+    ],
   })
 );
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+app.use(
+  express.json({
+    limit: '10mb',
+    // Payment webhooks are signed over the exact bytes received
+    verify: (req: Request, _res, buf) => {
+      if (req.originalUrl.startsWith('/api/shop/payments/webhook')) {
+        req.rawBody = buf;
+      }
+    },
+  })
+);
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(cookieParser());
 
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import prisma from '../config/prisma';
+import accountStatusService from '../services/accountStatusService';
 import { AuthenticationError, AuthorizationError } from '../utils/errors';
 
 // Import UserRole enum from Prisma
@@ -77,6 +78,9 @@ export const authenticate = async (
         id: true,
         email: true,
         username: true,
+        status: true,
+        statusReason: true,
+        statusExpiresAt: true,
         admin: {
           select: {
             role: true,
@@ -89,6 +93,9 @@ export const authenticate = async (
       throw new AuthenticationError('User no longer exists');
     }
 
+    // Banned or suspended accounts cannot use existing tokens
+    await accountStatusService.assertActive(user);
+
     // Determine user role
     const role = user.admin ? user.admin.role : UserRole.USER;
 
@@ -146,6 +153,9 @@ export const optionalAuth = async (
         id: true,
         email: true,
         username: true,
+        status: true,
+        statusReason: true,
+        statusExpiresAt: true,
         admin: {
           select: {
             role: true,
@@ -154,7 +164,7 @@ export const optionalAuth = async (
       },
     });
 
-    if (user) {
+    if (user && accountStatusService.getEffectiveStatus(user) === 'ACTIVE') {
       const role = user.admin ? user.admin.role : UserRole.USER;
       req.user = {
         id: user.id,
@@ -62,6 +62,7 @@ export const corsOptions = cors({
     'X-Requested-With',
     'Accept',
     'Origin',
+    'Idempotency-Key',
   ],
   exposedHeaders: ['X-Total-Count', 'X-Page', 'X-Per-Page'],
   maxAge: 86400, // 24 hours
@@ -87,6 +87,11 @@ export const validateUpdateProfile: ValidationChain[] = [
     .optional()
     .isURL()
     .withMessage('Invalid URL format'),
+  body('is_private')
+    .optional()
+    .isBoolean()
+    .withMessage('is_private must be a boolean')
+    .toBoolean(),
 ];
 
 // Validate change password
@@ -129,6 +134,14 @@ export const validateCreateModule: ValidationChain[] = [
     .optional()
     .isString()
     .withMessage('Content must be a string'),
+  body('contentBlocks')
+    .optional({ nullable: true })
+    .isArray()
+    .withMessage('Content blocks must be an array'),
+  body('publishStatus')
+    .optional()
+    .isIn(['DRAFT', 'PUBLISHED', 'ARCHIVED'])
+    .withMessage('Invalid publish status'),
 ];
 
 // Validate create product
@@ -155,6 +168,10 @@ export const validateCreateProduct: ValidationChain[] = [
     .optional()
     .isInt({ min: 0 })
     .withMessage('Stock must be a non-negative integer'),
+  body('pointsPrice')
+    .optional({ nullable: true })
+    .isInt({ min: 1 })
+    .withMessage('Points price must be a positive integer'),
   body('images')
     .optional()
     .isArray()
@@ -9,6 +9,8 @@ import {
   handleValidationErrors,
 } from '../middleware';
 import { body, query } from 'express-validator';
+import { ACHIEVEMENT_METRICS } from '../types/achievement';
+import { QUIZ_FORMATS } from '../types/quiz';
 
 const router = Router();
 
@@ -61,7 +63,7 @@ router.get(
     query('limit').optional().isInt({ min: 1, max: 100 }),
     query('search').optional().isString(),
     query('role').optional().isString(),
-    query('status').optional().isString(),
+    query('status').optional().isIn(['ACTIVE', 'SUSPENDED', 'BANNED']),
   ],
   handleValidationErrors,
   adminController.getAllUsers
@@ -90,7 +92,17 @@ router.post(
 // PUT /api/admin/users/:id
 router.put(
   '/users/:id',
-  validateId,
+  validateId(),
+  [
+    body('email').optional().isEmail().withMessage('Valid email is required'),
+    body('username').optional().notEmpty().withMessage('Username cannot be empty'),
+    body('bio').optional({ nullable: true }).isString(),
+    body('password')
+      .optional()
+      .isLength({ min: 8 })
+      .withMessage('Password must be at least 8 characters'),
+    body('totalPoints').optional().isInt({ min: 0 }).toInt(),
+  ],
   handleValidationErrors,
   adminController.updateUser
 );
@@ -106,10 +118,13 @@ router.delete(
 // POST /api/admin/users/:id/ban
 router.post(
   '/users/:id/ban',
-  validateId,
+  validateId(),
   [
     body('reason').notEmpty().withMessage('Ban reason is required'),
-    body('duration').optional().isInt({ min: 0 }),
+    body('duration')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Duration must be a whole number of hours'),
   ],
   handleValidationErrors,
   adminController.banUser
@@ -118,7 +133,7 @@ router.post(
 // POST /api/admin/users/:id/unban
 router.post(
   '/users/:id/unban',
-  validateId,
+  validateId(),
   handleValidationErrors,
   adminController.unbanUser
 );
@@ -126,8 +141,14 @@ router.post(
 // POST /api/admin/users/:id/suspend
 router.post(
   '/users/:id/suspend',
-  validateId,
-  [body('reason').notEmpty().withMessage('Suspension reason is required')],
+  validateId(),
+  [
+    body('reason').notEmpty().withMessage('Suspension reason is required'),
+    body('duration')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Duration must be a positive number of hours'),
+  ],
   handleValidationErrors,
   adminController.suspendUser
 );
@@ -135,11 +156,119 @@ router.post(
 // POST /api/admin/users/:id/activate
 router.post(
   '/users/:id/activate',
-  validateId,
+  validateId(),
   handleValidationErrors,
   adminController.activateUser
 );
 
+// GET /api/admin/users/:id/status-history
+router.get(
+  '/users/:id/status-history',
+  validateId(),
+  handleValidationErrors,
+  adminController.getUserStatusHistory
+);
+
+// GET /api/admin/users/:id/points
+router.get(
+  '/users/:id/points',
+  validateId(),
+  [
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  adminController.getUserPoints
+);
+
+// POST /api/admin/users/:id/points
+router.post(
+  '/users/:id/points',
+  validateId(),
+  [
+    body('amount').isInt().toInt().withMessage('Amount must be a non-zero integer'),
+    body('note').optional().isString().isLength({ max: 500 }),
+  ],
+  handleValidationErrors,
+  adminController.adjustUserPoints
+);
+
+// GET /api/admin/progression/curve
+router.get('/progression/curve', adminController.getLevelCurve);
+
+// POST /api/admin/progression/recompute-levels
+router.post('/progression/recompute-levels', adminController.recomputeLevels);
+
+// Achievement Definitions
+const achievementValidation = [
+  body('description').optional({ nullable: true }).isString().isLength({ max: 500 }),
+  body('icon').optional({ nullable: true }).isString().isLength({ max: 255 }),
+  body('points').optional().isInt({ min: 0 }).toInt(),
+  body('active').optional().isBoolean().toBoolean(),
+  body('criteria.*.metric')
+    .isIn([...ACHIEVEMENT_METRICS])
+    .withMessage(`Metric must be one of: ${ACHIEVEMENT_METRICS.join(', ')}`),
+  body('criteria.*.min').isFloat({ min: 0 }).toFloat(),
+];
+
+// GET /api/admin/achievements
+router.get(
+  '/achievements',
+  [
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+    query('active').optional().isBoolean(),
+  ],
+  handleValidationErrors,
+  adminController.getAchievementDefinitions
+);
+
+// POST /api/admin/achievements
+router.post(
+  '/achievements',
+  [
+    body('key')
+      .isString()
+      .trim()
+      .matches(/^[a-z0-9_]{2,50}$/i)
+      .withMessage('Key must be 2-50 letters, digits or underscores'),
+    body('name').isString().trim().isLength({ min: 1, max: 100 }),
+    body('criteria').isArray({ min: 1 }).withMessage('At least one criterion is required'),
+    ...achievementValidation,
+  ],
+  handleValidationErrors,
+  adminController.createAchievementDefinition
+);
+
+// PUT /api/admin/achievements/:id
+router.put(
+  '/achievements/:id',
+  validateId(),
+  [
+    body('name').optional().isString().trim().isLength({ min: 1, max: 100 }),
+    body('criteria').optional().isArray({ min: 1 }),
+    ...achievementValidation,
+  ],
+  handleValidationErrors,
+  adminController.updateAchievementDefinition
+);
+
+// DELETE /api/admin/achievements/:id
+router.delete(
+  '/achievements/:id',
+  validateId(),
+  handleValidationErrors,
+  adminController.deleteAchievementDefinition
+);
+
+// POST /api/admin/achievements/:id/backfill
+router.post(
+  '/achievements/:id/backfill',
+  validateId(),
+  handleValidationErrors,
+  adminController.backfillAchievement
+);
+
 // POST /api/admin/users/:id/role
 router.post(
   '/users/:id/role',
@@ -261,22 +390,102 @@ router.get(
 // PUT /api/admin/shop/orders/:id/status
 router.put(
   '/shop/orders/:id/status',
-  validateId,
+  validateId(),
   [
     body('status')
-      .isIn(['PENDING', 'PROCESSING', 'SHIPPED', 'DELIVERED', 'CANCELLED'])
-      .withMessage('Valid status is required'),
+      .isIn(['PAID', 'SHIPPED', 'DELIVERED', 'CANCELLED'])
+      .withMessage('Valid status is required (use the refund endpoint for refunds)'),
+    body('note').optional().isString().isLength({ max: 500 }),
+    body('trackingNumber').optional().isString().isLength({ max: 100 }),
   ],
   handleValidationErrors,
   adminController.updateOrderStatus
 );
 
+// POST /api/admin/shop/orders/:id/refund
+router.post(
+  '/shop/orders/:id/refund',
+  validateId(),
+  [
+    body('amount').optional().isFloat({ gt: 0 }).withMessage('Amount must be a positive number'),
+    body('reason').optional().isString().isLength({ max: 500 }),
+  ],
+  handleValidationErrors,
+  adminController.refundOrder
+);
+
 // GET /api/admin/shop/stats/products
 router.get('/shop/stats/products', adminController.getProductStats);
 
 // GET /api/admin/shop/stats/orders
 router.get('/shop/stats/orders', adminController.getOrderStats);
 
+const couponValidation = [
+  body('description').optional().isString().isLength({ max: 500 }),
+  body('value').optional().isFloat({ gt: 0 }).toFloat(),
+  body('freeProductId').optional({ nullable: true }).isUUID(),
+  body('productIds').optional().isArray(),
+  body('productIds.*').isUUID(),
+  body('categoryIds').optional().isArray(),
+  body('categoryIds.*').isUUID(),
+  body('maxUses').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+  body('maxUsesPerUser').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+  body('startsAt').optional({ nullable: true }).isISO8601().toDate(),
+  body('endsAt').optional({ nullable: true }).isISO8601().toDate(),
+  body('active').optional().isBoolean().toBoolean(),
+];
+
+// GET /api/admin/shop/coupons
+router.get(
+  '/shop/coupons',
+  [
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+    query('active').optional().isBoolean(),
+  ],
+  handleValidationErrors,
+  adminController.getCoupons
+);
+
+// POST /api/admin/shop/coupons
+router.post(
+  '/shop/coupons',
+  [
+    body('code')
+      .isString()
+      .trim()
+      .isLength({ min: 3, max: 50 })
+      .withMessage('Coupon code must be between 3 and 50 characters'),
+    body('type')
+      .isIn(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_ITEM'])
+      .withMessage('Valid coupon type is required'),
+    ...couponValidation,
+  ],
+  handleValidationErrors,
+  adminController.createCoupon
+);
+
+// PUT /api/admin/shop/coupons/:id
+router.put(
+  '/shop/coupons/:id',
+  validateId(),
+  [
+    body('code').optional().isString().trim().isLength({ min: 3, max: 50 }),
+    body('type').optional().isIn(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_ITEM']),
+    ...couponValidation,
+  ],
+  handleValidationErrors,
+  adminController.updateCoupon
+);
+
+// DELETE /api/admin/shop/coupons/:id
+router.delete(
+  '/shop/coupons/:id',
+  validateId(),
+  handleValidationErrors,
+  adminController.deleteCoupon
+);
+
 // Module Management
 // GET /api/admin/modules
 router.get(
@@ -286,6 +495,7 @@ router.get(
     query('limit').optional().isInt({ min: 1, max: 100 }),
     query('search').optional().isString(),
     query('category').optional().isString(),
+    query('status').optional().isIn(['DRAFT', 'PUBLISHED', 'ARCHIVED']),
   ],
   handleValidationErrors,
   adminController.getAllModules
@@ -302,7 +512,7 @@ router.post(
 // PUT /api/admin/modules/:id
 router.put(
   '/modules/:id',
-  validateId,
+  validateId(),
   handleValidationErrors,
   adminController.updateModule
 );
@@ -315,6 +525,45 @@ router.delete(
   adminController.deleteModule
 );
 
+// Lessons
+const lessonValidation = [
+  body('lessonNumber').optional().isInt({ min: 1 }).toInt(),
+  body('content').optional({ nullable: true }).isString(),
+  body('contentBlocks').optional({ nullable: true }).isArray().withMessage('Content blocks must be an array'),
+  body('duration').optional({ nullable: true }).isInt({ min: 0 }).toInt(),
+];
+
+// POST /api/admin/modules/:id/lessons
+router.post(
+  '/modules/:id/lessons',
+  validateId(),
+  [
+    body('title').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Lesson title is required'),
+    ...lessonValidation,
+  ],
+  handleValidationErrors,
+  adminController.createLesson
+);
+
+// PUT /api/admin/modules/:id/lessons/:lessonId
+router.put(
+  '/modules/:id/lessons/:lessonId',
+  validateId(),
+  validateId('lessonId'),
+  [body('title').optional().isString().trim().isLength({ min: 1, max: 200 }), ...lessonValidation],
+  handleValidationErrors,
+  adminController.updateLesson
+);
+
+// DELETE /api/admin/modules/:id/lessons/:lessonId
+router.delete(
+  '/modules/:id/lessons/:lessonId',
+  validateId(),
+  validateId('lessonId'),
+  handleValidationErrors,
+  adminController.deleteLesson
+);
+
 // GET /api/admin/modules/:id/enrollments
 router.get(
   '/modules/:id/enrollments',
@@ -330,7 +579,8 @@ router.get(
 // POST /api/admin/modules/:id/publish
 router.post(
   '/modules/:id/publish',
-  validateId,
+  validateId(),
+  [body('publishAt').optional().isISO8601().withMessage('publishAt must be an ISO 8601 date')],
   handleValidationErrors,
   adminController.publishModule
 );
@@ -338,14 +588,53 @@ router.post(
 // POST /api/admin/modules/:id/unpublish
 router.post(
   '/modules/:id/unpublish',
-  validateId,
+  validateId(),
   handleValidationErrors,
   adminController.unpublishModule
 );
 
+// POST /api/admin/modules/:id/archive
+router.post(
+  '/modules/:id/archive',
+  validateId(),
+  handleValidationErrors,
+  adminController.archiveModule
+);
+
 // GET /api/admin/modules/stats
 router.get('/modules/stats', adminController.getModuleStats);
 
+// GET /api/admin/modules/:id/stats
+router.get(
+  '/modules/:id/stats',
+  validateId(),
+  handleValidationErrors,
+  adminController.getModuleDetailStats
+);
+
+// GET /api/admin/modules/:id/prerequisites
+router.get(
+  '/modules/:id/prerequisites',
+  validateId(),
+  handleValidationErrors,
+  adminController.getModulePrerequisites
+);
+
+// PUT /api/admin/modules/:id/prerequisites
+router.put(
+  '/modules/:id/prerequisites',
+  validateId(),
+  [
+    body('prerequisites').isArray().withMessage('Prerequisites must be an array'),
+    body('prerequisites.*.type').isIn(['MODULE_COMPLETED', 'QUIZ_PASSED', 'MIN_LEVEL']),
+    body('prerequisites.*.moduleId').optional().isUUID(),
+    body('prerequisites.*.quizId').optional().isUUID(),
+    body('prerequisites.*.minLevel').optional().isInt({ min: 1 }).toInt(),
+  ],
+  handleValidationErrors,
+  adminController.setModulePrerequisites
+);
+
 // POST /api/admin/modules/categories
 router.post(
   '/modules/categories',
@@ -366,6 +655,288 @@ router.put(
   adminController.updateCategory
 );
 
+// Quiz Management
+const quizPolicyValidation = [
+  body('passingScore').optional().isFloat({ min: 0, max: 100 }).toFloat(),
+  body('maxAttempts').optional({ nullable: true }).isInt({ min: 1 }).toInt(),
+  body('cooldownSeconds').optional().isInt({ min: 0 }).toInt(),
+  body('scoringPolicy').optional().isIn(['BEST', 'LATEST', 'AVERAGE']),
+  body('reviewPolicy').optional().isIn(['IMMEDIATELY', 'AFTER_PASS', 'AFTER_FINAL_ATTEMPT', 'NEVER']),
+];
+
+// GET /api/admin/quizzes
+router.get(
+  '/quizzes',
+  [query('moduleId').optional().isUUID()],
+  handleValidationErrors,
+  adminController.getQuizzes
+);
+
+// POST /api/admin/quizzes
+router.post(
+  '/quizzes',
+  [
+    body('moduleId').isUUID().withMessage('Valid module ID is required'),
+    body('title').isString().trim().isLength({ min: 1, max: 200 }),
+    body('questions').isArray().withMessage('Questions must be an array'),
+    body('timeLimitSeconds').optional({ nullable: true }).isInt({ min: 10 }).toInt(),
+    body('pools').optional({ nullable: true }).isArray(),
+    body('shuffle').optional().isBoolean().toBoolean(),
+    ...quizPolicyValidation,
+  ],
+  handleValidationErrors,
+  adminController.createQuiz
+);
+
+// PUT /api/admin/quizzes/:id
+router.put(
+  '/quizzes/:id',
+  validateId(),
+  [
+    body('moduleId').optional().isUUID(),
+    body('title').optional().isString().trim().isLength({ min: 1, max: 200 }),
+    body('questions').optional().isArray(),
+    body('timeLimitSeconds').optional({ nullable: true }).isInt({ min: 10 }).toInt(),
+    body('pools').optional({ nullable: true }).isArray(),
+    body('shuffle').optional().isBoolean().toBoolean(),
+    ...quizPolicyValidation,
+  ],
+  handleValidationErrors,
+  adminController.updateQuiz
+);
+
+// POST /api/admin/quizzes/import
+router.post(
+  '/quizzes/import',
+  [
+    body('format').isIn([...QUIZ_FORMATS]).withMessage(`Format must be one of: ${QUIZ_FORMATS.join(', ')}`),
+    body('content').isString().notEmpty().withMessage('Content is required'),
+    body('moduleId').isUUID().withMessage('Valid module ID is required'),
+    body('title').isString().trim().isLength({ min: 1, max: 200 }),
+    body('dryRun').optional().isBoolean().toBoolean(),
+  ],
+  handleValidationErrors,
+  adminController.importQuiz
+);
+
+// GET /api/admin/quizzes/:id/export
+router.get(
+  '/quizzes/:id/export',
+  validateId(),
+  [query('format').isIn([...QUIZ_FORMATS]).withMessage(`Format must be one of: ${QUIZ_FORMATS.join(', ')}`)],
+  handleValidationErrors,
+  adminController.exportQuiz
+);
+
+// GET /api/admin/quizzes/:id/statistics
+router.get(
+  '/quizzes/:id/statistics',
+  validateId(),
+  handleValidationErrors,
+  adminController.getQuizItemStatistics
+);
+
+// DELETE /api/admin/quizzes/:id
+router.delete(
+  '/quizzes/:id',
+  validateId(),
+  handleValidationErrors,
+  adminController.deleteQuiz
+);
+
+// Question Banks
+const questionBankValidation = [
+  body('description').optional({ nullable: true }).isString(),
+  body('moduleId').optional({ nullable: true }).isUUID(),
+  body('topic').optional({ nullable: true }).isString().trim().isLength({ max: 100 }),
+  body('difficulty').optional({ nullable: true }).isIn(['BEGINNER', 'INTERMEDIATE', 'ADVANCED']),
+];
+
+// GET /api/admin/question-banks
+router.get(
+  '/question-banks',
+  [
+    query('moduleId').optional().isUUID(),
+    query('topic').optional().isString(),
+    query('difficulty').optional().isIn(['BEGINNER', 'INTERMEDIATE', 'ADVANCED']),
+  ],
+  handleValidationErrors,
+  adminController.getQuestionBanks
+);
+
+// GET /api/admin/question-banks/:id
+router.get(
+  '/question-banks/:id',
+  validateId(),
+  handleValidationErrors,
+  adminController.getQuestionBank
+);
+
+// POST /api/admin/question-banks
+router.post(
+  '/question-banks',
+  [
+    body('name').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Bank name is required'),
+    ...questionBankValidation,
+  ],
+  handleValidationErrors,
+  adminController.createQuestionBank
+);
+
+// PUT /api/admin/question-banks/:id
+router.put(
+  '/question-banks/:id',
+  validateId(),
+  [
+    body('name').optional().isString().trim().isLength({ min: 1, max: 200 }),
+    ...questionBankValidation,
+  ],
+  handleValidationErrors,
+  adminController.updateQuestionBank
+);
+
+// DELETE /api/admin/question-banks/:id
+router.delete(
+  '/question-banks/:id',
+  validateId(),
+  handleValidationErrors,
+  adminController.deleteQuestionBank
+);
+
+// POST /api/admin/question-banks/:id/questions
+router.post(
+  '/question-banks/:id/questions',
+  validateId(),
+  [body('questions').isArray({ min: 1 }).withMessage('Questions must be a non-empty array')],
+  handleValidationErrors,
+  adminController.addBankQuestions
+);
+
+// PUT /api/admin/question-banks/:id/questions/:questionId
+router.put(
+  '/question-banks/:id/questions/:questionId',
+  validateId(),
+  validateId('questionId'),
+  [body('question').isObject().withMessage('Question must be an object')],
+  handleValidationErrors,
+  adminController.updateBankQuestion
+);
+
+// DELETE /api/admin/question-banks/:id/questions/:questionId
+router.delete(
+  '/question-banks/:id/questions/:questionId',
+  validateId(),
+  validateId('questionId'),
+  handleValidationErrors,
+  adminController.deleteBankQuestion
+);
+
+// Learning Paths
+const learningPathValidation = [
+  body('description').optional({ nullable: true }).isString(),
+  body('difficulty').optional({ nullable: true }).isIn(['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'EXPERT']),
+  body('points').optional().isInt({ min: 0 }).toInt(),
+  body('badgeKey').optional({ nullable: true }).isString(),
+  body('publishStatus').optional().isIn(['DRAFT', 'PUBLISHED', 'ARCHIVED']),
+  body('steps.*.moduleId').isUUID().withMessage('Step module ID must be a valid UUID'),
+  body('steps.*.position').isInt({ min: 1 }).toInt(),
+];
+
+// GET /api/admin/paths
+router.get('/paths', adminController.getLearningPaths);
+
+// GET /api/admin/paths/:id
+router.get(
+  '/paths/:id',
+  validateId(),
+  handleValidationErrors,
+  adminController.getLearningPath
+);
+
+// POST /api/admin/paths
+router.post(
+  '/paths',
+  [
+    body('title').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Path title is required'),
+    body('steps').isArray({ min: 1 }).withMessage('Steps must be a non-empty array'),
+    ...learningPathValidation,
+  ],
+  handleValidationErrors,
+  adminController.createLearningPath
+);
+
+// PUT /api/admin/paths/:id
+router.put(
+  '/paths/:id',
+  validateId(),
+  [
+    body('title').optional().isString().trim().isLength({ min: 1, max: 200 }),
+    body('steps').optional().isArray({ min: 1 }),
+    ...learningPathValidation,
+  ],
+  handleValidationErrors,
+  adminController.updateLearningPath
+);
+
+// DELETE /api/admin/paths/:id
+router.delete(
+  '/paths/:id',
+  validateId(),
+  handleValidationErrors,
+  adminController.deleteLearningPath
+);
+
+// Certificates
+// GET /api/admin/certificates
+router.get(
+  '/certificates',
+  [
+    query('userId').optional().isUUID(),
+    query('revoked').optional().isBoolean(),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  adminController.getCertificates
+);
+
+// POST /api/admin/certificates/:id/revoke
+router.post(
+  '/certificates/:id/revoke',
+  validateId(),
+  [body('reason').optional().isString().trim().isLength({ max: 500 })],
+  handleValidationErrors,
+  adminController.revokeCertificate
+);
+
+// Content Revisions
+// GET /api/admin/revisions
+router.get(
+  '/revisions',
+  [query('entityType').isIn(['MODULE', 'LESSON', 'QUIZ']), query('entityId').isUUID()],
+  handleValidationErrors,
+  adminController.getRevisions
+);
+
+// GET /api/admin/revisions/compare
+router.get(
+  '/revisions/compare',
+  [query('from').isUUID(), query('to').isUUID()],
+  handleValidationErrors,
+  adminController.compareRevisions
+);
+
+// GET /api/admin/revisions/:id
+router.get('/revisions/:id', validateId(), handleValidationErrors, adminController.getRevision);
+
+// POST /api/admin/revisions/:id/restore
+router.post(
+  '/revisions/:id/restore',
+  validateId(),
+  handleValidationErrors,
+  adminController.restoreRevision
+);
+
 // System Operations
 // POST /api/admin/backup
 router.post('/backup', adminController.backup);
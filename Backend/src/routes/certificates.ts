@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import * as certificateController from '../controllers/certificateController';
+import { requireAuth, validateId, handleValidationErrors, apiLimiter } from '../middleware';
+import { param } from 'express-validator';
+
+const router = Router();
+
+// GET /api/certificates (protected)
+router.get('/', requireAuth, certificateController.getMyCertificates);
+
+// GET /api/certificates/verify/:code
+router.get(
+  '/verify/:code',
+  apiLimiter,
+  [param('code').isString().trim().isLength({ min: 4, max: 20 })],
+  handleValidationErrors,
+  certificateController.verifyCertificate
+);
+
+// GET /api/certificates/:id/pdf (protected)
+router.get(
+  '/:id/pdf',
+  requireAuth,
+  validateId(),
+  handleValidationErrors,
+  certificateController.downloadCertificate
+);
+
+export default router;
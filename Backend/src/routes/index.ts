@@ -3,12 +3,15 @@ import authRoutes from './auth';
 import userRoutes from './user';
 import moduleRoutes from './modules';
 import quizRoutes from './quizzes';
+import pathRoutes from './paths';
+import certificateRoutes from './certificates';
 import progressRoutes from './progress';
 import rankingRoutes from './ranking';
 import shopRoutes from './shop';
 import chatRoutes from './chat';
 import adminRoutes from './admin';
 import cookieConsentRoutes from './cookieConsent';
+import searchRoutes from './search';
 
 const router = Router();
 
@@ -17,12 +20,15 @@ router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
 router.use('/modules', moduleRoutes);
 router.use('/quizzes', quizRoutes);
+router.use('/paths', pathRoutes);
+router.use('/certificates', certificateRoutes);
 router.use('/progress', progressRoutes);
 router.use('/ranking', rankingRoutes);
 router.use('/shop', shopRoutes);
 router.use('/chat', chatRoutes);
 router.use('/admin', adminRoutes);
 router.use('/cookie-consent', cookieConsentRoutes);
+router.use('/search', searchRoutes);
 
 // Health check
 router.get('/health', (_req, res) => {
@@ -44,12 +50,15 @@ router.get('/', (_req, res) => {
       users: '/api/users',
       modules: '/api/modules',
       quizzes: '/api/quizzes',
+      paths: '/api/paths',
+      certificates: '/api/certificates',
       progress: '/api/progress',
       ranking: '/api/ranking',
       shop: '/api/shop',
       chat: '/api/chat',
       admin: '/api/admin',
       cookieConsent: '/api/cookie-consent',
+      search: '/api/search',
     },
   });
 });
@@ -8,6 +8,7 @@ import {
   apiLimiter,
 } from '../middleware';
 import { body, query } from 'express-validator';
+import { TRENDING_WINDOWS } from '../types/trending';
 
 const router = Router();
 
@@ -15,11 +16,12 @@ const router = Router();
 router.get(
   '/',
   apiLimiter,
+  optionalAuth,
   [
     query('page').optional().isInt({ min: 1 }),
     query('limit').optional().isInt({ min: 1, max: 100 }),
     query('search').optional().isString(),
-    query('level').optional().isString(),
+    query('level').optional().isIn(['BEGINNER', 'INTERMEDIATE', 'ADVANCED', 'EXPERT']),
   ],
   handleValidationErrors,
   moduleController.getModules
@@ -28,7 +30,12 @@ router.get(
 // GET /api/modules/trending
 router.get(
   '/trending',
-  [query('limit').optional().isInt({ min: 1, max: 50 })],
+  optionalAuth,
+  [
+    query('limit').optional().isInt({ min: 1, max: 50 }),
+    query('window').optional().isIn([...TRENDING_WINDOWS]),
+    query('category').optional().isString().trim().notEmpty(),
+  ],
   handleValidationErrors,
   moduleController.getTrending
 );
@@ -45,6 +52,7 @@ router.get(
 // GET /api/modules/category/:category
 router.get(
   '/category/:category',
+  optionalAuth,
   [
     query('page').optional().isInt({ min: 1 }),
     query('limit').optional().isInt({ min: 1, max: 100 }),
@@ -56,7 +64,8 @@ router.get(
 // GET /api/modules/:id
 router.get(
   '/:id',
-  validateId,
+  optionalAuth,
+  validateId(),
   handleValidationErrors,
   moduleController.getModuleById
 );
@@ -65,7 +74,7 @@ router.get(
 router.post(
   '/:id/start',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.startModule
 );
@@ -74,7 +83,7 @@ router.post(
 router.get(
   '/:id/content',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.getModuleContent
 );
@@ -83,11 +92,42 @@ router.get(
 router.post(
   '/:id/complete',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.completeModule
 );
 
+// GET /api/modules/:id/progress (protected)
+router.get(
+  '/:id/progress',
+  requireAuth,
+  validateId(),
+  handleValidationErrors,
+  moduleController.getModuleProgress
+);
+
+// POST /api/modules/:id/lessons/:lessonId/view (protected)
+router.post(
+  '/:id/lessons/:lessonId/view',
+  requireAuth,
+  validateId(),
+  validateId('lessonId'),
+  [body('timeSpent').optional().isInt({ min: 0, max: 86400 }).toInt()],
+  handleValidationErrors,
+  moduleController.viewLesson
+);
+
+// POST /api/modules/:id/lessons/:lessonId/complete (protected)
+router.post(
+  '/:id/lessons/:lessonId/complete',
+  requireAuth,
+  validateId(),
+  validateId('lessonId'),
+  [body('timeSpent').optional().isInt({ min: 0, max: 86400 }).toInt()],
+  handleValidationErrors,
+  moduleController.completeLesson
+);
+
 // GET /api/modules/quizzes
 router.get(
   '/quizzes',
@@ -101,7 +141,7 @@ router.get(
 router.get(
   '/quizzes/:id',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.getQuizById
 );
@@ -110,7 +150,7 @@ router.get(
 router.post(
   '/quizzes/:id/start',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.startQuiz
 );
@@ -119,7 +159,7 @@ router.post(
 router.post(
   '/quizzes/:id/submit',
   requireAuth,
-  validateId,
+  validateId(),
   [
     body('attemptId').notEmpty().withMessage('Attempt ID is required'),
     body('answers').isObject().withMessage('Answers must be an object'),
@@ -132,7 +172,7 @@ router.post(
 router.get(
   '/quizzes/:id/results',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.getQuizResults
 );
@@ -152,7 +192,7 @@ router.get(
 // GET /api/modules/events/:id
 router.get(
   '/events/:id',
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.getEventById
 );
@@ -161,7 +201,7 @@ router.get(
 router.post(
   '/events/:id/register',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.registerForEvent
 );
@@ -170,7 +210,7 @@ router.post(
 router.delete(
   '/events/:id/unregister',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.unregisterFromEvent
 );
@@ -191,7 +231,7 @@ router.get(
 router.get(
   '/meetings/:id',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.getMeetingById
 );
@@ -200,7 +240,7 @@ router.get(
 router.post(
   '/meetings/:id/join',
   requireAuth,
-  validateId,
+  validateId(),
   handleValidationErrors,
   moduleController.joinMeeting
 );
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import * as learningPathController from '../controllers/learningPathController';
+import {
+  requireAuth,
+  optionalAuth,
+  validateId,
+  handleValidationErrors,
+  apiLimiter,
+} from '../middleware';
+
+const router = Router();
+
+// GET /api/paths
+router.get('/', apiLimiter, learningPathController.getPaths);
+
+// GET /api/paths/me (protected)
+router.get('/me', requireAuth, learningPathController.getMyPaths);
+
+// GET /api/paths/:id
+router.get(
+  '/:id',
+  optionalAuth,
+  validateId(),
+  handleValidationErrors,
+  learningPathController.getPath
+);
+
+// POST /api/paths/:id/enroll (protected)
+router.post(
+  '/:id/enroll',
+  requireAuth,
+  validateId(),
+  handleValidationErrors,
+  learningPathController.enroll
+);
+
+// DELETE /api/paths/:id/enroll (protected)
+router.delete(
+  '/:id/enroll',
+  requireAuth,
+  validateId(),
+  handleValidationErrors,
+  learningPathController.unenroll
+);
+
+export default router;
@@ -24,6 +24,9 @@ router.get(
   progressController.getChart
 );
 
+// GET /api/progress/level (protected)
+router.get('/level', requireAuth, progressController.getLevel);
+
 // GET /api/progress/streak (protected)
 router.get('/streak', requireAuth, progressController.getStreak);
 
@@ -5,7 +5,7 @@ import * as quizController from '../controllers/quizController';
 const router = Router();
 
 /**
- * Quiz Routes - 8 endpoints
+ * Quiz Routes - 10 endpoints
  * All quiz-related operations
  */
 
@@ -18,7 +18,9 @@ router.get('/:id/leaderboard', quizController.getQuizLeaderboard);
 // Protected routes (require authentication)
 router.post('/:id/start', authenticate, quizController.startQuizAttempt);
 router.post('/:id/submit', authenticate, quizController.submitQuizAnswers);
+router.put('/:id/attempts/:attemptId/answers', authenticate, quizController.saveQuizAnswers);
 router.get('/:id/attempts', authenticate, quizController.getQuizAttempts);
+router.get('/:id/attempts/:attemptId/review', authenticate, quizController.getAttemptReview);
 router.get('/:id/best-score', authenticate, quizController.getBestScore);
 
 export default router;
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import * as searchController from '../controllers/searchController';
+import { optionalAuth, handleValidationErrors, apiLimiter } from '../middleware';
+import { query } from 'express-validator';
+import { SEARCH_TYPES } from '../types/search';
+
+const router = Router();
+
+// GET /api/search
+router.get(
+  '/',
+  apiLimiter,
+  optionalAuth,
+  [
+    query('q').isString().trim().isLength({ min: 2, max: 100 }),
+    query('types')
+      .optional()
+      .isString()
+      .custom((value: string) =>
+        value.split(',').every((type) => (SEARCH_TYPES as readonly string[]).includes(type))
+      )
+      .withMessage(`Types must be a comma-separated list of ${SEARCH_TYPES.join(', ')}`),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 20 }),
+  ],
+  handleValidationErrors,
+  searchController.search
+);
+
+export default router;
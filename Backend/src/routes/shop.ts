@@ -7,7 +7,7 @@ import {
   handleValidationErrors,
   apiLimiter,
 } from '../middleware';
-import { body, query } from 'express-validator';
+import { body, header, query } from 'express-validator';
 
 const router = Router();
 
@@ -91,6 +91,18 @@ router.post(
 // GET /api/shop/cart (protected)
 router.get('/cart', requireAuth, shopController.getCart);
 
+// POST /api/shop/cart/coupon (protected)
+router.post(
+  '/cart/coupon',
+  requireAuth,
+  [body('code').isString().trim().notEmpty().withMessage('Coupon code is required')],
+  handleValidationErrors,
+  shopController.applyCoupon
+);
+
+// DELETE /api/shop/cart/coupon (protected)
+router.delete('/cart/coupon', requireAuth, shopController.removeCoupon);
+
 // PUT /api/shop/cart/:id (protected)
 router.put(
   '/cart/:id',
@@ -122,6 +134,11 @@ router.post(
   [
     body('shippingAddress').notEmpty().withMessage('Shipping address is required'),
     body('paymentMethod').notEmpty().withMessage('Payment method is required'),
+    body('usePoints').optional().isBoolean().toBoolean(),
+    header('Idempotency-Key')
+      .optional()
+      .isLength({ min: 8, max: 255 })
+      .withMessage('Idempotency-Key must be between 8 and 255 characters'),
   ],
   handleValidationErrors,
   shopController.checkout
@@ -148,6 +165,28 @@ router.get(
   shopController.getOrderById
 );
 
+// POST /api/shop/orders/:id/payment (protected)
+router.post(
+  '/orders/:id/payment',
+  requireAuth,
+  validateId(),
+  handleValidationErrors,
+  shopController.createPaymentIntent
+);
+
+// POST /api/shop/orders/:id/payment/confirm (protected)
+router.post(
+  '/orders/:id/payment/confirm',
+  requireAuth,
+  validateId(),
+  [body('paymentMethod').notEmpty().withMessage('Payment method is required')],
+  handleValidationErrors,
+  shopController.confirmPayment
+);
+
+// POST /api/shop/payments/webhook (signed by the payment provider)
+router.post('/payments/webhook', shopController.paymentWebhook);
+
 // GET /api/shop/wishlist (protected)
 router.get('/wishlist', requireAuth, shopController.getWishlist);
 
@@ -42,6 +42,18 @@ router.put(
   userController.changePassword
 );
 
+// GET /api/users/points (protected)
+router.get(
+  '/points',
+  requireAuth,
+  [
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 }),
+  ],
+  handleValidationErrors,
+  userController.getPointsLedger
+);
+
 // GET /api/users/sessions (protected)
 router.get('/sessions', requireAuth, userController.getSessions);
 
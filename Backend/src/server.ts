@@ -2,6 +2,7 @@ import 'dotenv/config';
 import http from 'http';
 import app from './main';
 import ChatGateway from './websocket/chatGateway';
+import { startJobs, stopJobs } from './jobs';
 import logger from './config/logger';
 
 const PORT = parseInt(process.env.PORT || '5000', 10);
@@ -17,6 +18,9 @@ const startServer = async (): Promise<void> => {
     chatGateway = new ChatGateway(server);
     logger.info('Chat Gateway initialized successfully');
 
+    // Start background jobs
+    startJobs();
+
     server.listen(PORT, HOST, () => {
       logger.info(`Server running on port ${PORT}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
@@ -32,6 +36,7 @@ const startServer = async (): Promise<void> => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  stopJobs();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -40,6 +45,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
+  stopJobs();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -0,0 +1,261 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { AccountStatus } from '@prisma/client';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors';
+
+interface StatusSubject {
+  id: string;
+  status: AccountStatus;
+  statusReason: string | null;
+  statusExpiresAt: Date | null;
+}
+
+interface StatusChangeOptions {
+  reason?: string;
+  durationHours?: number;
+  issuedById?: string;
+}
+
+// Helper to get chatGateway instance (see notificationService for rationale)
+const getChatGateway = () => {
+  try {
+    const server = require('../server');
+    return server.chatGateway;
+  } catch {
+    return null;
+  }
+};
+
+export class AccountStatusService {
+  /**
+   * Resolve the status currently in force, treating lapsed timed restrictions as active
+   */
+  getEffectiveStatus(user: StatusSubject): AccountStatus {
+    if (
+      user.status !== AccountStatus.ACTIVE &&
+      user.statusExpiresAt &&
+      user.statusExpiresAt <= new Date()
+    ) {
+      return AccountStatus.ACTIVE;
+    }
+
+    return user.status;
+  }
+
+  /**
+   * Throw if the user is banned or suspended; lifts expired restrictions on the way
+   */
+  async assertActive(user: StatusSubject): Promise<void> {
+    if (user.status === AccountStatus.ACTIVE) {
+      return;
+    }
+
+    if (this.getEffectiveStatus(user) === AccountStatus.ACTIVE) {
+      await this.restore(user.id, AccountStatus.ACTIVE);
+      return;
+    }
+
+    const reason = user.statusReason ? `: ${user.statusReason}` : '';
+    const until = user.statusExpiresAt ? ` until ${user.statusExpiresAt.toISOString()}` : '';
+
+    if (user.status === AccountStatus.BANNED) {
+      throw new AuthorizationError(`Account is banned${until}${reason}`);
+    }
+
+    throw new AuthorizationError(`Account is suspended${until}${reason}`);
+  }
+
+  /**
+   * Look up a user by ID and assert their account is active
+   */
+  async assertUserActive(userId: string): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, status: true, statusReason: true, statusExpiresAt: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    await this.assertActive(user);
+  }
+
+  /**
+   * Ban a user, optionally for a limited number of hours
+   */
+  async ban(userId: string, options: StatusChangeOptions) {
+    return this.restrict(userId, AccountStatus.BANNED, options);
+  }
+
+  /**
+   * Suspend a user, optionally for a limited number of hours
+   */
+  async suspend(userId: string, options: StatusChangeOptions) {
+    return this.restrict(userId, AccountStatus.SUSPENDED, options);
+  }
+
+  /**
+   * Lift a ban or suspension
+   */
+  async restore(userId: string, expected: AccountStatus, issuedById?: string) {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { status: true },
+      });
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      // ACTIVE means "whatever the restriction was" (used for automatic expiry)
+      if (expected !== AccountStatus.ACTIVE && user.status !== expected) {
+        throw new ValidationError(`User is not ${expected.toLowerCase()}`);
+      }
+
+      if (user.status === AccountStatus.ACTIVE) {
+        return;
+      }
+
+      await prisma.$transaction([
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            status: AccountStatus.ACTIVE,
+            statusReason: null,
+            statusExpiresAt: null,
+          },
+        }),
+        prisma.accountStatusChange.create({
+          data: {
+            userId,
+            status: AccountStatus.ACTIVE,
+            reason: issuedById ? 'Lifted by admin' : 'Restriction expired',
+            issuedById,
+          },
+        }),
+      ]);
+
+      logger.info(`Account ${userId} restored to active`);
+    } catch (error) {
+      logger.error('Error restoring account status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lift every timed restriction whose expiry has passed
+   */
+  async expireRestrictions(): Promise<number> {
+    try {
+      const expired = await prisma.user.findMany({
+        where: {
+          status: { not: AccountStatus.ACTIVE },
+          statusExpiresAt: { lte: new Date() },
+        },
+        select: { id: true },
+      });
+
+      for (const user of expired) {
+        await this.restore(user.id, AccountStatus.ACTIVE);
+      }
+
+      return expired.length;
+    } catch (error) {
+      logger.error('Error expiring account restrictions:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the status change trail for a user
+   */
+  async getHistory(userId: string) {
+    try {
+      return await prisma.accountStatusChange.findMany({
+        where: { userId },
+        include: {
+          issuedBy: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      logger.error('Error fetching account status history:', error);
+      throw new Error('Failed to fetch account status history');
+    }
+  }
+
+  /**
+   * Apply a restriction, record it and revoke every session of the user
+   */
+  private async restrict(userId: string, status: AccountStatus, options: StatusChangeOptions) {
+    try {
+      const { reason, durationHours, issuedById } = options;
+
+      if (issuedById === userId) {
+        throw new ValidationError('You cannot restrict your own account');
+      }
+
+      const expiresAt = durationHours ? new Date(Date.now() + durationHours * 3600 * 1000) : null;
+
+      const [user] = await prisma.$transaction([
+        prisma.user.update({
+          where: { id: userId },
+          data: {
+            status,
+            statusReason: reason,
+            statusExpiresAt: expiresAt,
+          },
+          select: {
+            id: true,
+            status: true,
+            statusReason: true,
+            statusExpiresAt: true,
+          },
+        }),
+        prisma.accountStatusChange.create({
+          data: {
+            userId,
+            status,
+            reason,
+            expiresAt,
+            issuedById,
+          },
+        }),
+        prisma.session.deleteMany({ where: { userId } }),
+        prisma.refreshToken.deleteMany({ where: { userId } }),
+      ]);
+
+      this.disconnectSockets(userId);
+
+      logger.warn(`Account ${userId} set to ${status} by ${issuedById || 'system'}`);
+
+      return user;
+    } catch (error) {
+      logger.error('Error restricting account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop any live WebSocket connection held by the user
+   */
+  private disconnectSockets(userId: string): void {
+    try {
+      const chatGateway = getChatGateway();
+      if (chatGateway) {
+        chatGateway.disconnectUser(userId);
+      }
+    } catch (error) {
+      logger.error('Error disconnecting user sockets:', error);
+    }
+  }
+}
+
+export default new AccountStatusService();
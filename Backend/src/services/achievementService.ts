@@ -0,0 +1,461 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import {
+  AchievementDefinition,
+  OrderStatus,
+  PointsReason,
+  Prisma,
+  QuizAttemptStatus,
+} from '@prisma/client';
+import progressionService from './progressionService';
+import notificationService from './notificationService';
+import quizGradingService from './quizGradingService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import {
+  ACHIEVEMENT_METRICS,
+  AchievementCondition,
+  AchievementDefinitionInput,
+  AchievementEvent,
+  AchievementMetric,
+} from '../types/achievement';
+
+type MetricValues = Partial<Record<AchievementMetric, number>>;
+
+// Which metrics can change when a domain event happens
+const EVENT_METRICS: Record<AchievementEvent, AchievementMetric[]> = {
+  module_completed: ['modulesCompleted', 'streak', 'level', 'experience', 'totalPoints'],
+  quiz_submitted: ['quizzesPassed', 'perfectQuizzes', 'bestQuizScore', 'level', 'experience', 'totalPoints'],
+  points_changed: ['level', 'experience', 'totalPoints'],
+  order_paid: ['purchases'],
+  follow: ['followers', 'following'],
+  chat_message: ['chatMessages'],
+};
+
+const PURCHASE_STATUSES: OrderStatus[] = [OrderStatus.PAID, OrderStatus.SHIPPED, OrderStatus.DELIVERED];
+const BACKFILL_BATCH_SIZE = 200;
+
+/**
+ * Achievement Service
+ * Evaluates data-defined badges against user metrics when domain events happen
+ */
+export class AchievementService {
+  /**
+   * List definitions for the admin screens
+   */
+  async getDefinitions(page: number = 1, limit: number = 50, active?: boolean) {
+    try {
+      const where: Prisma.AchievementDefinitionWhereInput = active === undefined ? {} : { active };
+
+      const [definitions, total] = await Promise.all([
+        prisma.achievementDefinition.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { createdAt: 'asc' },
+        }),
+        prisma.achievementDefinition.count({ where }),
+      ]);
+
+      return { definitions, total, page, totalPages: Math.ceil(total / limit) };
+    } catch (error) {
+      logger.error('Error fetching achievement definitions:', error);
+      throw new Error('Failed to fetch achievement definitions');
+    }
+  }
+
+  /**
+   * Public catalog of active badges with how many users earned each
+   */
+  async getCatalog() {
+    const [definitions, counts] = await Promise.all([
+      prisma.achievementDefinition.findMany({
+        where: { active: true },
+        select: { id: true, key: true, name: true, description: true, icon: true, points: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.achievement.groupBy({ by: ['badgeName'], _count: { _all: true } }),
+    ]);
+
+    return definitions.map((definition) => ({
+      ...definition,
+      earnedBy: counts.find((count) => count.badgeName === definition.key)?._count._all ?? 0,
+    }));
+  }
+
+  /**
+   * Get a single definition
+   */
+  async getDefinition(id: string) {
+    const definition = await prisma.achievementDefinition.findUnique({ where: { id } });
+
+    if (!definition) {
+      throw new NotFoundError('Achievement not found');
+    }
+
+    return definition;
+  }
+
+  /**
+   * Badges earned by a user, with their definition details
+   */
+  async getUserAchievements(userId: string) {
+    const earned = await prisma.achievement.findMany({
+      where: { userId },
+      orderBy: { earnedAt: 'desc' },
+    });
+
+    const definitions = await prisma.achievementDefinition.findMany({
+      where: { key: { in: earned.map((achievement) => achievement.badgeName) } },
+      select: { key: true, name: true, description: true, icon: true, points: true },
+    });
+
+    return earned.map((achievement) => ({
+      ...achievement,
+      definition: definitions.find((definition) => definition.key === achievement.badgeName) ?? null,
+    }));
+  }
+
+  /**
+   * Create a definition; it is queued for backfill
+   */
+  async createDefinition(data: AchievementDefinitionInput) {
+    try {
+      this.assertCriteria(data.criteria);
+
+      return await prisma.achievementDefinition.create({
+        data: {
+          key: data.key.trim().toLowerCase(),
+          name: data.name,
+          description: data.description,
+          icon: data.icon,
+          criteria: data.criteria as unknown as Prisma.InputJsonValue,
+          points: data.points ?? 0,
+          active: data.active ?? true,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Achievement key already exists');
+      }
+      logger.error('Error creating achievement definition:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a definition; the key is immutable because earned badges refer to it.
+   * Changed criteria are backfilled again.
+   */
+  async updateDefinition(id: string, data: Partial<AchievementDefinitionInput>) {
+    try {
+      await this.getDefinition(id);
+
+      if (data.criteria !== undefined) {
+        this.assertCriteria(data.criteria);
+      }
+
+      return await prisma.achievementDefinition.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          icon: data.icon,
+          criteria: data.criteria as unknown as Prisma.InputJsonValue | undefined,
+          points: data.points,
+          active: data.active,
+          ...(data.criteria !== undefined || data.active ? { backfilledAt: null } : {}),
+        },
+      });
+    } catch (error) {
+      logger.error('Error updating achievement definition:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a definition nobody earned yet, otherwise deactivate it
+   */
+  async deleteDefinition(id: string) {
+    try {
+      const definition = await this.getDefinition(id);
+      const earned = await prisma.achievement.count({ where: { badgeName: definition.key } });
+
+      if (earned > 0) {
+        await prisma.achievementDefinition.update({ where: { id }, data: { active: false } });
+        return { deleted: false };
+      }
+
+      await prisma.achievementDefinition.delete({ where: { id } });
+      return { deleted: true };
+    } catch (error) {
+      logger.error('Error deleting achievement definition:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a definition for the backfill job
+   */
+  async requestBackfill(id: string) {
+    await this.getDefinition(id);
+    return prisma.achievementDefinition.update({ where: { id }, data: { backfilledAt: null } });
+  }
+
+  /**
+   * Award every active badge the event could have unlocked. Never throws:
+   * achievements must not break the action that triggered them.
+   */
+  async evaluate(userId: string, event: AchievementEvent): Promise<string[]> {
+    try {
+      const relevant = EVENT_METRICS[event];
+      const [definitions, earned] = await Promise.all([
+        prisma.achievementDefinition.findMany({ where: { active: true } }),
+        prisma.achievement.findMany({ where: { userId }, select: { badgeName: true } }),
+      ]);
+
+      const earnedKeys = new Set(earned.map((achievement) => achievement.badgeName));
+      const candidates = definitions.filter(
+        (definition) =>
+          !earnedKeys.has(definition.key) &&
+          this.conditionsOf(definition).some((condition) => relevant.includes(condition.metric))
+      );
+
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const metrics = await this.computeMetrics(userId, this.metricsUsedBy(candidates));
+      const awarded: string[] = [];
+
+      for (const definition of candidates) {
+        if (this.isSatisfied(definition, metrics) && (await this.award(userId, definition))) {
+          awarded.push(definition.key);
+        }
+      }
+
+      // Badge points can unlock level and point based badges in turn
+      if (event !== 'points_changed' && candidates.some((c) => awarded.includes(c.key) && c.points > 0)) {
+        awarded.push(...(await this.evaluate(userId, 'points_changed')));
+      }
+
+      return awarded;
+    } catch (error) {
+      logger.error('Error evaluating achievements:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Fire-and-forget variant of evaluate for request handlers
+   */
+  trigger(userId: string, event: AchievementEvent): void {
+    void this.evaluate(userId, event);
+  }
+
+  /**
+   * Award an active badge by key regardless of its criteria, e.g. for finishing a
+   * learning path. Returns false when the user already had it.
+   */
+  async grant(userId: string, key: string): Promise<boolean> {
+    const definition = await prisma.achievementDefinition.findUnique({ where: { key } });
+
+    if (!definition || !definition.active) {
+      logger.warn(`Achievement ${key} cannot be granted: missing or inactive`);
+      return false;
+    }
+
+    const awarded = await this.award(userId, definition);
+
+    if (awarded && definition.points > 0) {
+      await this.evaluate(userId, 'points_changed');
+    }
+
+    return awarded;
+  }
+
+  /**
+   * Award new or changed definitions retroactively to every user
+   */
+  async runBackfill() {
+    const pending = await prisma.achievementDefinition.findMany({
+      where: { active: true, backfilledAt: null },
+    });
+
+    let awarded = 0;
+
+    for (const definition of pending) {
+      const metrics = this.metricsUsedBy([definition]);
+      let lastId: string | undefined;
+
+      // Page on the id alone: awarding removes users from the badge filter, so an
+      // offset or cursor into the filtered list would skip eligible users
+      for (;;) {
+        const users = await prisma.user.findMany({
+          where: {
+            ...(lastId ? { id: { gt: lastId } } : {}),
+            achievements: { none: { badgeName: definition.key } },
+          },
+          select: { id: true },
+          orderBy: { id: 'asc' },
+          take: BACKFILL_BATCH_SIZE,
+        });
+
+        if (users.length === 0) {
+          break;
+        }
+
+        for (const user of users) {
+          const values = await this.computeMetrics(user.id, metrics);
+          if (this.isSatisfied(definition, values) && (await this.award(user.id, definition))) {
+            awarded++;
+          }
+        }
+
+        lastId = users[users.length - 1]?.id;
+      }
+
+      await prisma.achievementDefinition.update({
+        where: { id: definition.id },
+        data: { backfilledAt: new Date() },
+      });
+
+      logger.info(`Backfilled achievement ${definition.key}`);
+    }
+
+    return { definitions: pending.length, awarded };
+  }
+
+  /**
+   * Store the badge, credit its points and notify the user.
+   * Returns false when the user already had it.
+   */
+  private async award(userId: string, definition: AchievementDefinition): Promise<boolean> {
+    try {
+      await prisma.achievement.create({
+        data: { userId, badgeName: definition.key },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+
+    logger.info(`User ${userId} earned achievement ${definition.key}`);
+
+    if (definition.points > 0) {
+      await progressionService.awardPoints(userId, definition.points, PointsReason.ACHIEVEMENT, {
+        referenceId: definition.id,
+        once: true,
+      });
+    }
+
+    await notificationService.notifyAchievement(userId, definition.name);
+
+    return true;
+  }
+
+  private conditionsOf(definition: AchievementDefinition): AchievementCondition[] {
+    return Array.isArray(definition.criteria)
+      ? (definition.criteria as unknown as AchievementCondition[])
+      : [];
+  }
+
+  private metricsUsedBy(definitions: AchievementDefinition[]): AchievementMetric[] {
+    return [...new Set(definitions.flatMap((definition) => this.conditionsOf(definition).map((c) => c.metric)))];
+  }
+
+  private isSatisfied(definition: AchievementDefinition, metrics: MetricValues): boolean {
+    const conditions = this.conditionsOf(definition);
+
+    return (
+      conditions.length > 0 &&
+      conditions.every((condition) => (metrics[condition.metric] ?? 0) >= condition.min)
+    );
+  }
+
+  /**
+   * Load only the metrics the candidate definitions need
+   */
+  private async computeMetrics(userId: string, needed: AchievementMetric[]): Promise<MetricValues> {
+    const values: MetricValues = {};
+    const needs = (...metrics: AchievementMetric[]) => metrics.some((metric) => needed.includes(metric));
+
+    if (needs('streak', 'level', 'experience', 'totalPoints')) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { streak: true, level: true, experience: true, totalPoints: true },
+      });
+      Object.assign(values, user ?? {});
+    }
+
+    if (needs('modulesCompleted')) {
+      values.modulesCompleted = await prisma.userProgress.count({
+        where: { userId, status: 'COMPLETED' },
+      });
+    }
+
+    if (needs('quizzesPassed', 'perfectQuizzes', 'bestQuizScore')) {
+      const results = await prisma.quizResult.findMany({
+        where: { userId, status: { not: QuizAttemptStatus.IN_PROGRESS } },
+        select: { quizId: true, score: true, quiz: { select: { passingScore: true, scoringPolicy: true } } },
+        orderBy: { startedAt: 'asc' },
+      });
+      const byQuiz = new Map<string, typeof results>();
+      for (const result of results) {
+        byQuiz.set(result.quizId, [...(byQuiz.get(result.quizId) ?? []), result]);
+      }
+      const attempts = [...byQuiz.values()];
+      const scores = attempts.map((quizResults) => Math.max(...quizResults.map((result) => result.score)));
+
+      // Passing follows each quiz's own pass mark and scoring policy
+      values.quizzesPassed = attempts.filter((quizResults) => {
+        const { passingScore, scoringPolicy } = quizResults[0]!.quiz;
+        const counted = quizGradingService.countedScore(
+          quizResults.map((result) => result.score),
+          scoringPolicy
+        );
+        return counted !== null && counted >= passingScore;
+      }).length;
+      values.perfectQuizzes = scores.filter((score) => score >= 100).length;
+      values.bestQuizScore = scores.length > 0 ? Math.max(...scores) : 0;
+    }
+
+    if (needs('purchases')) {
+      values.purchases = await prisma.order.count({
+        where: { userId, status: { in: PURCHASE_STATUSES } },
+      });
+    }
+
+    if (needs('followers')) {
+      values.followers = await prisma.userFollow.count({ where: { followingId: userId } });
+    }
+
+    if (needs('following')) {
+      values.following = await prisma.userFollow.count({ where: { followerId: userId } });
+    }
+
+    if (needs('chatMessages')) {
+      values.chatMessages = await prisma.chatMessage.count({ where: { userId } });
+    }
+
+    return values;
+  }
+
+  private assertCriteria(criteria: AchievementCondition[]) {
+    if (!Array.isArray(criteria) || criteria.length === 0) {
+      throw new ValidationError('Criteria must contain at least one condition');
+    }
+
+    criteria.forEach((condition) => {
+      if (!ACHIEVEMENT_METRICS.includes(condition.metric)) {
+        throw new ValidationError(`Unknown achievement metric: ${condition.metric}`);
+      }
+      if (!Number.isFinite(condition.min) || condition.min < 0) {
+        throw new ValidationError(`Minimum for ${condition.metric} must be a non-negative number`);
+      }
+    });
+  }
+}
+
+export default new AchievementService();
@@ -1,6 +1,28 @@
 import prisma from '../config/prisma';
 import logger from '../config/logger';
 import bcrypt from 'bcrypt';
+import { OrderStatus, Prisma } from '@prisma/client';
+import orderService from './orderService';
+import progressionService from './progressionService';
+import achievementService from './achievementService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+// Fields the admin user editor may change
+interface AdminUserUpdate {
+  email?: string;
+  username?: string;
+  bio?: string | null;
+  password?: string;
+  totalPoints?: number;
+}
+
+const USER_UPDATE_FIELDS: (keyof AdminUserUpdate)[] = [
+  'email',
+  'username',
+  'bio',
+  'password',
+  'totalPoints',
+];
 
 export class AdminService {
   /**
@@ -133,18 +155,40 @@ export class AdminService {
   }
 
   /**
-   * Update user
+   * Update user; fields other than those of AdminUserUpdate are rejected
    */
-  async updateUser(userId: string, data: any) {
+  async updateUser(userId: string, data: AdminUserUpdate, adminId: string) {
     try {
-      const updateData: any = {};
+      const unknownFields = Object.keys(data).filter(
+        (field) => !USER_UPDATE_FIELDS.includes(field as keyof AdminUserUpdate)
+      );
+
+      if (unknownFields.length > 0) {
+        throw new ValidationError(`Fields cannot be updated: ${unknownFields.join(', ')}`);
+      }
+
+      const updateData: Prisma.UserUpdateInput = {};
 
       if (data.email) updateData.email = data.email;
       if (data.username) updateData.username = data.username;
       if (data.bio !== undefined) updateData.bio = data.bio;
-      if (data.level) updateData.level = parseInt(data.level);
-      if (data.totalPoints !== undefined)
-        updateData.totalPoints = parseInt(data.totalPoints);
+      // Levels are derived from experience and point balances only change through the ledger
+      if (data.totalPoints !== undefined) {
+        const current = await prisma.user.findUnique({
+          where: { id: userId },
+          select: { totalPoints: true },
+        });
+
+        if (!current) {
+          throw new NotFoundError('User not found');
+        }
+
+        const delta = data.totalPoints - current.totalPoints;
+        if (delta !== 0) {
+          await progressionService.adjustPoints(userId, delta, adminId, 'Balance set from user editor');
+          await achievementService.evaluate(userId, 'points_changed');
+        }
+      }
 
       if (data.password) {
         updateData.passwordHash = await bcrypt.hash(data.password, 12);
@@ -291,6 +335,7 @@ export class AdminService {
         pendingOrders,
         completedOrders,
         revenue,
+        discounts,
       ] = await Promise.all([
         prisma.order.count(),
         prisma.order.count({ where: { status: 'PENDING' } }),
@@ -299,6 +344,9 @@ export class AdminService {
           _sum: { totalPrice: true },
           where: { status: 'DELIVERED' },
         }),
+        prisma.couponRedemption.aggregate({
+          _sum: { discount: true },
+        }),
       ]);
 
       return {
@@ -306,6 +354,7 @@ export class AdminService {
         pendingOrders,
         completedOrders,
         revenue: Number(revenue._sum.totalPrice || 0),
+        totalDiscount: Number(discounts._sum.discount || 0),
       };
     } catch (error) {
       logger.error('Error fetching order stats:', error);
@@ -316,16 +365,12 @@ export class AdminService {
   /**
    * Update order status
    */
-  async updateOrderStatus(orderId: string, status: string) {
-    try {
-      return await prisma.order.update({
-        where: { id: orderId },
-        data: { status: status as any },
-      });
-    } catch (error) {
-      logger.error('Error updating order status:', error);
-      throw new Error('Failed to update order status');
-    }
+  async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    options: { changedById?: string; note?: string; trackingNumber?: string } = {}
+  ) {
+    return orderService.transition(orderId, status, options);
   }
 }
 
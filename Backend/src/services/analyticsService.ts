@@ -1,6 +1,9 @@
 import prisma from '../config/prisma';
 import logger from '../config/logger';
 import redis from '../config/redis';
+import { QuizAttemptStatus } from '@prisma/client';
+import quizGradingService from './quizGradingService';
+import { NotFoundError } from '../utils/errors';
 import {
   GlobalStats,
   ModuleStats,
@@ -8,6 +11,24 @@ import {
   UserActivityStats,
   ActivityMetadata,
 } from '../types/analytics';
+import { DrawnQuestion, QuestionScore, QuizItemStat, QuizQuestion } from '../types/quiz';
+
+interface ItemResponse {
+  credit: number;
+  total: number;
+  answer: unknown;
+  seconds: number | null;
+}
+
+// Share of attempts forming the upper and lower groups of the discrimination index
+const DISCRIMINATION_GROUP = 0.27;
+// Fewer responses than this are too few to flag a question
+const ITEM_FLAG_MIN_RESPONSES = 5;
+const ITEM_ANALYSIS_MAX_ATTEMPTS = 5000;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
 
 class AnalyticsService {
   /**
@@ -236,6 +257,7 @@ class AnalyticsService {
           quizId: {
             in: quizzes.map((q) => q.id),
           },
+          status: { not: QuizAttemptStatus.IN_PROGRESS },
         },
       });
 
@@ -261,6 +283,79 @@ class AnalyticsService {
     }
   }
 
+  /**
+   * Per-question item analysis of a quiz's finished attempts. Questions are keyed by
+   * their reference so drawn and shuffled attempts are counted against the same item;
+   * answers are read in stored (unshuffled) positions.
+   */
+  async getQuizItemAnalysis(quizId: string) {
+    try {
+      const quiz = await prisma.quiz.findUnique({ where: { id: quizId } });
+
+      if (!quiz) {
+        throw new NotFoundError('Quiz not found');
+      }
+
+      const attempts = await prisma.quizResult.findMany({
+        where: { quizId, status: { not: QuizAttemptStatus.IN_PROGRESS } },
+        select: {
+          score: true,
+          answers: true,
+          seed: true,
+          drawnQuestions: true,
+          questionScores: true,
+          questionTimes: true,
+        },
+        orderBy: { completedAt: 'desc' },
+        take: ITEM_ANALYSIS_MAX_ATTEMPTS,
+      });
+
+      const items = new Map<string, { question: QuizQuestion; responses: ItemResponse[] }>();
+
+      for (const attempt of attempts) {
+        const questions = quizGradingService.parseStored(attempt.drawnQuestions ?? quiz.questions);
+        const refs = attempt.drawnQuestions
+          ? (attempt.drawnQuestions as unknown as DrawnQuestion[]).map((question) => question.ref)
+          : questions.map((_, index) => `quiz:${index}`);
+        const given = (attempt.answers as Record<string, unknown>) ?? {};
+        const answers = quizGradingService.mapAnswers(
+          questions,
+          given,
+          quizGradingService.layoutFor(quiz.id, attempt.seed)
+        );
+        const scores = Array.isArray(attempt.questionScores)
+          ? (attempt.questionScores as unknown as QuestionScore[])
+          : quizGradingService.grade(questions, answers).questionScores;
+        const times = (attempt.questionTimes as Record<string, number> | null) ?? {};
+
+        questions.forEach((question, position) => {
+          const ref = refs[position] ?? `quiz:${position}`;
+          const item = items.get(ref) ?? { question, responses: [] };
+
+          item.responses.push({
+            credit: scores[position]?.credit ?? 0,
+            total: attempt.score,
+            answer: answers[position.toString()],
+            seconds: times[position.toString()] ?? null,
+          });
+          items.set(ref, item);
+        });
+      }
+
+      return {
+        quizId,
+        title: quiz.title,
+        attempts: attempts.length,
+        items: [...items.entries()].map(([ref, { question, responses }]) =>
+          this.analyzeItem(ref, question, responses)
+        ),
+      };
+    } catch (error) {
+      logger.error('Get quiz item analysis error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get dashboard statistics
    */
@@ -488,6 +583,82 @@ class AnalyticsService {
       throw error;
     }
   }
+
+  private analyzeItem(ref: string, question: QuizQuestion, responses: ItemResponse[]): QuizItemStat {
+    const credits = responses.map((response) => response.credit);
+    const percentCorrect = round2(
+      (responses.filter((response) => response.credit === 1).length / responses.length) * 100
+    );
+
+    let discrimination: number | null = null;
+    if (responses.length >= 2) {
+      const ranked = [...responses].sort((a, b) => b.total - a.total);
+      const size = Math.max(1, Math.floor(ranked.length * DISCRIMINATION_GROUP));
+      discrimination = round2(
+        mean(ranked.slice(0, size).map((response) => response.credit)) -
+          mean(ranked.slice(-size).map((response) => response.credit))
+      );
+    }
+
+    const seconds = responses
+      .map((response) => response.seconds)
+      .filter((value): value is number => typeof value === 'number');
+
+    const flags: QuizItemStat['flags'] = [];
+    if (responses.length >= ITEM_FLAG_MIN_RESPONSES) {
+      if (percentCorrect === 0) {
+        flags.push('nobody_correct');
+      } else if (percentCorrect === 100) {
+        flags.push('everybody_correct');
+      }
+    }
+
+    return {
+      ref,
+      type: question.type,
+      question: question.question,
+      responses: responses.length,
+      percentCorrect,
+      averageCredit: round2(mean(credits)),
+      discrimination,
+      averageTimeSeconds: seconds.length > 0 ? round2(mean(seconds)) : null,
+      distractors: this.distractorStats(question, responses),
+      flags,
+    };
+  }
+
+  // How often each option was picked, for choice and true/false questions
+  private distractorStats(question: QuizQuestion, responses: ItemResponse[]) {
+    const answered = responses.filter((response) => response.answer !== undefined && response.answer !== null);
+    const share = (count: number) => (answered.length > 0 ? round2((count / answered.length) * 100) : 0);
+
+    if (question.type === 'single_choice' || question.type === 'multiple_choice') {
+      const correct = question.type === 'single_choice' ? [question.correctAnswer] : question.correctAnswers;
+
+      return question.options.map((text, index) => {
+        const count = answered.filter((response) =>
+          Array.isArray(response.answer) ? response.answer.includes(index) : response.answer === index
+        ).length;
+
+        return { value: index, text, correct: correct.includes(index), count, percent: share(count) };
+      });
+    }
+
+    if (question.type === 'true_false') {
+      return [true, false].map((value) => {
+        const count = answered.filter((response) => response.answer === value).length;
+        return {
+          value,
+          text: String(value),
+          correct: question.correctAnswer === value,
+          count,
+          percent: share(count),
+        };
+      });
+    }
+
+    return null;
+  }
 }
 
 export default new AnalyticsService();
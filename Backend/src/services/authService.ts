@@ -4,6 +4,7 @@ import crypto from 'crypto';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
 import redis from '../config/redis';
+import accountStatusService from './accountStatusService';
 import {
   AuthenticationError,
   ValidationError,
@@ -103,6 +104,9 @@ class AuthService {
         throw new AuthenticationError('Invalid email or password');
       }
 
+      // Block banned or suspended accounts
+      await accountStatusService.assertActive(user);
+
       logger.info(`User logged in: ${user.id} - ${email}`);
 
       // Generate tokens
@@ -260,6 +264,9 @@ class AuthService {
         throw new AuthenticationError('Invalid or expired refresh token');
       }
 
+      // Do not hand out new tokens to banned or suspended accounts
+      await accountStatusService.assertUserActive(decoded.userId);
+
       // Delete old refresh token
       await prisma.refreshToken.delete({
         where: { id: storedToken.id },
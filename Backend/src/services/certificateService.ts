@@ -0,0 +1,338 @@
+import crypto from 'crypto';
+import PDFDocument from 'pdfkit';
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { Certificate, Prisma, QuizAttemptStatus, QuizScoringPolicy } from '@prisma/client';
+import quizGradingService from './quizGradingService';
+import { ConflictError, NotFoundError } from '../utils/errors';
+
+// No 0/O or 1/I so codes survive being read off paper
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_GROUPS = 3;
+const CODE_GROUP_LENGTH = 4;
+
+/**
+ * Certificate Service
+ * Issues, renders and verifies completion certificates for modules and learning paths
+ */
+export class CertificateService {
+  /**
+   * Issue the certificate for a completed module; the score is the average counted
+   * score of its quizzes. Never throws: a failed certificate must not undo the completion.
+   */
+  async issueForModule(userId: string, moduleId: string): Promise<Certificate | null> {
+    try {
+      const existing = await prisma.certificate.findUnique({
+        where: { userId_moduleId: { userId, moduleId } },
+      });
+
+      if (existing) {
+        return existing;
+      }
+
+      const [user, module] = await Promise.all([
+        prisma.user.findUnique({ where: { id: userId }, select: { username: true } }),
+        prisma.module.findUnique({
+          where: { id: moduleId },
+          select: { title: true, quizzes: { select: { id: true, scoringPolicy: true } } },
+        }),
+      ]);
+
+      if (!user || !module) {
+        return null;
+      }
+
+      return await this.create({
+        userId,
+        moduleId,
+        recipientName: user.username,
+        title: module.title,
+        score: await this.moduleScore(userId, module.quizzes),
+      });
+    } catch (error) {
+      logger.error('Error issuing module certificate:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Issue the certificate for a completed learning path. Never throws.
+   */
+  async issueForPath(userId: string, pathId: string): Promise<Certificate | null> {
+    try {
+      const existing = await prisma.certificate.findUnique({
+        where: { userId_pathId: { userId, pathId } },
+      });
+
+      if (existing) {
+        return existing;
+      }
+
+      const [user, path] = await Promise.all([
+        prisma.user.findUnique({ where: { id: userId }, select: { username: true } }),
+        prisma.learningPath.findUnique({ where: { id: pathId }, select: { title: true } }),
+      ]);
+
+      if (!user || !path) {
+        return null;
+      }
+
+      return await this.create({ userId, pathId, recipientName: user.username, title: path.title });
+    } catch (error) {
+      logger.error('Error issuing path certificate:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Certificate a user holds for a module, if any
+   */
+  async getForModule(userId: string, moduleId: string) {
+    return prisma.certificate.findUnique({ where: { userId_moduleId: { userId, moduleId } } });
+  }
+
+  /**
+   * Certificates of a user, newest first
+   */
+  async getUserCertificates(userId: string) {
+    return prisma.certificate.findMany({
+      where: { userId },
+      orderBy: { issuedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Certificates for the admin screens
+   */
+  async getCertificates(filters: { userId?: string; revoked?: boolean; page?: number; limit?: number }) {
+    const { userId, revoked, page = 1, limit = 20 } = filters;
+    const where: Prisma.CertificateWhereInput = {
+      userId,
+      ...(revoked === undefined ? {} : { revokedAt: revoked ? { not: null } : null }),
+    };
+
+    const [certificates, total] = await Promise.all([
+      prisma.certificate.findMany({
+        where,
+        include: { user: { select: { id: true, username: true, email: true } } },
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { issuedAt: 'desc' },
+      }),
+      prisma.certificate.count({ where }),
+    ]);
+
+    return { certificates, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * Public authenticity check by verification code
+   */
+  async verify(code: string) {
+    const certificate = await prisma.certificate.findUnique({
+      where: { code: code.trim().toUpperCase() },
+    });
+
+    if (!certificate) {
+      throw new NotFoundError('Certificate not found');
+    }
+
+    return {
+      valid: certificate.revokedAt === null,
+      code: certificate.code,
+      recipientName: certificate.recipientName,
+      title: certificate.title,
+      type: certificate.pathId ? 'learning_path' : 'module',
+      score: certificate.score,
+      issuedAt: certificate.issuedAt,
+      revokedAt: certificate.revokedAt,
+    };
+  }
+
+  /**
+   * Revoke a certificate; verification reports it as invalid from then on
+   */
+  async revoke(certificateId: string, revokedById: string, reason?: string) {
+    const certificate = await prisma.certificate.findUnique({ where: { id: certificateId } });
+
+    if (!certificate) {
+      throw new NotFoundError('Certificate not found');
+    }
+
+    if (certificate.revokedAt) {
+      throw new ConflictError('Certificate is already revoked');
+    }
+
+    const revoked = await prisma.certificate.update({
+      where: { id: certificateId },
+      data: { revokedAt: new Date(), revokedById, revokedReason: reason ?? null },
+    });
+
+    logger.info(`Certificate ${certificate.code} revoked by ${revokedById}`);
+
+    return revoked;
+  }
+
+  /**
+   * Render one of the user's valid certificates as a PDF
+   */
+  async renderPdf(userId: string, certificateId: string) {
+    const certificate = await prisma.certificate.findFirst({
+      where: { id: certificateId, userId },
+    });
+
+    if (!certificate) {
+      throw new NotFoundError('Certificate not found');
+    }
+
+    if (certificate.revokedAt) {
+      throw new ConflictError('Certificate has been revoked');
+    }
+
+    return {
+      filename: `certificate-${certificate.code}.pdf`,
+      content: await this.render(certificate),
+    };
+  }
+
+  private async create(data: Omit<Prisma.CertificateUncheckedCreateInput, 'code'>) {
+    for (;;) {
+      try {
+        const certificate = await prisma.certificate.create({
+          data: { ...data, code: this.generateCode() },
+        });
+
+        logger.info(`Certificate ${certificate.code} issued to ${data.userId}`);
+
+        return certificate;
+      } catch (error) {
+        // Retry on a code collision; any other unique violation means it was issued concurrently
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002' &&
+          (error.meta?.target as string[] | undefined)?.includes('code')
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private generateCode() {
+    return Array.from({ length: CODE_GROUPS }, () =>
+      Array.from(
+        { length: CODE_GROUP_LENGTH },
+        () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]
+      ).join('')
+    ).join('-');
+  }
+
+  private async moduleScore(
+    userId: string,
+    quizzes: { id: string; scoringPolicy: QuizScoringPolicy }[]
+  ) {
+    if (quizzes.length === 0) {
+      return null;
+    }
+
+    const results = await prisma.quizResult.findMany({
+      where: {
+        userId,
+        quizId: { in: quizzes.map((quiz) => quiz.id) },
+        status: { not: QuizAttemptStatus.IN_PROGRESS },
+      },
+      select: { quizId: true, score: true },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    const scores = quizzes.map(
+      (quiz) =>
+        quizGradingService.countedScore(
+          results.filter((result) => result.quizId === quiz.id).map((result) => result.score),
+          quiz.scoringPolicy
+        ) ?? 0
+    );
+
+    return Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 100) / 100;
+  }
+
+  // A4 landscape: heading, recipient, title, date and score, verification code at the bottom
+  private render(certificate: Certificate): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 60 });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const { width, height } = doc.page;
+      const contentWidth = width - 120;
+
+      doc.info.Title = `Certificate ${certificate.code}`;
+      doc.lineWidth(3).rect(30, 30, width - 60, height - 60).stroke('#1f2937');
+      doc.lineWidth(1).rect(40, 40, width - 80, height - 80).stroke('#9ca3af');
+
+      doc
+        .fillColor('#111827')
+        .font('Helvetica-Bold')
+        .fontSize(36)
+        .text('Certificate of Completion', 60, 110, { width: contentWidth, align: 'center' });
+
+      doc
+        .font('Helvetica')
+        .fontSize(16)
+        .fillColor('#4b5563')
+        .text('This certifies that', 60, 190, { width: contentWidth, align: 'center' });
+
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(30)
+        .fillColor('#111827')
+        .text(certificate.recipientName, 60, 225, { width: contentWidth, align: 'center' });
+
+      doc
+        .font('Helvetica')
+        .fontSize(16)
+        .fillColor('#4b5563')
+        .text(
+          certificate.pathId ? 'has completed the learning path' : 'has completed the module',
+          60,
+          285,
+          { width: contentWidth, align: 'center' }
+        );
+
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(22)
+        .fillColor('#111827')
+        .text(certificate.title, 60, 320, { width: contentWidth, align: 'center' });
+
+      const details = [`Issued on ${certificate.issuedAt.toISOString().slice(0, 10)}`];
+      if (certificate.score !== null) {
+        details.push(`Score ${certificate.score}%`);
+      }
+
+      doc
+        .font('Helvetica')
+        .fontSize(14)
+        .fillColor('#374151')
+        .text(details.join('   |   '), 60, 390, { width: contentWidth, align: 'center' });
+
+      doc
+        .fontSize(11)
+        .fillColor('#6b7280')
+        .text(
+          `Verification code ${certificate.code}  -  ${process.env.APP_URL ?? ''}/certificates/verify/${certificate.code}`,
+          60,
+          height - 100,
+          { width: contentWidth, align: 'center' }
+        );
+
+      doc.end();
+    });
+  }
+}
+
+export default new CertificateService();
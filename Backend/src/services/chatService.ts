@@ -1,5 +1,6 @@
 import prisma from '../config/prisma';
 import logger from '../config/logger';
+import achievementService from './achievementService';
 
 export class ChatService {
   /**
@@ -66,6 +67,8 @@ export class ChatService {
         },
       });
 
+      achievementService.trigger(userId, 'chat_message');
+
       return message;
     } catch (error) {
       logger.error('Error sending message:', error);
@@ -0,0 +1,290 @@
+import { Marked, Tokens } from 'marked';
+import sanitize from 'sanitize-html';
+import prisma from '../config/prisma';
+import { Prisma } from '@prisma/client';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { sanitizeHtml as escapeHtml } from '../utils/validators';
+import {
+  CALLOUT_VARIANTS,
+  CONTENT_BLOCK_TYPES,
+  CalloutVariant,
+  ContentBlock,
+  RenderedContent,
+  TocEntry,
+} from '../types/content';
+
+const MAX_BLOCKS = 200;
+const MAX_TEXT_LENGTH = 100_000;
+const WORDS_PER_MINUTE = 200;
+const IMAGE_SECONDS = 12;
+const CHECKPOINT_SECONDS = 60;
+const TOC_MAX_LEVEL = 3;
+
+// Everything rendered passes through this allowlist, including raw HTML inside markdown
+const SANITIZE_OPTIONS: sanitize.IOptions = {
+  allowedTags: [...sanitize.defaults.allowedTags, 'img', 'h1', 'h2', 'figure', 'figcaption'],
+  allowedAttributes: {
+    a: ['href', 'title'],
+    img: ['src', 'alt', 'title'],
+    h1: ['id'],
+    h2: ['id'],
+    h3: ['id'],
+    h4: ['id'],
+    code: ['class'],
+    aside: ['class'],
+    p: ['class'],
+    div: ['class', 'data-quiz-id'],
+  },
+  allowedClasses: {
+    code: ['language-*'],
+    aside: ['callout', 'callout-*'],
+    p: ['callout-title'],
+    div: ['quiz-checkpoint'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: { img: ['https'] },
+  allowProtocolRelative: false,
+  transformTags: {
+    a: sanitize.simpleTransform('a', { rel: 'noopener noreferrer' }),
+  },
+};
+
+interface StoredContent {
+  content: string | null;
+  contentBlocks: Prisma.JsonValue | null;
+}
+
+const isText = (value: unknown, max: number = MAX_TEXT_LENGTH): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= max;
+
+/**
+ * Content Service
+ * Validates block-based lesson content and renders it to sanitized HTML
+ */
+export class ContentService {
+  /**
+   * Validate blocks sent by an admin; quiz checkpoints must belong to the module
+   */
+  async prepareBlocks(raw: unknown, moduleId?: string): Promise<ContentBlock[]> {
+    const blocks = this.validateBlocks(raw);
+    const quizIds = blocks.flatMap((block) => (block.type === 'quiz' ? [block.quizId] : []));
+
+    if (quizIds.length === 0) {
+      return blocks;
+    }
+
+    if (!moduleId) {
+      throw new ValidationError('Quiz checkpoints can only be added once the module exists');
+    }
+
+    const found = await prisma.quiz.count({ where: { id: { in: quizIds }, moduleId } });
+
+    if (found !== new Set(quizIds).size) {
+      throw new NotFoundError('Quiz checkpoints must reference quizzes of this module');
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Check the shape of every block
+   */
+  validateBlocks(raw: unknown): ContentBlock[] {
+    if (!Array.isArray(raw)) {
+      throw new ValidationError('Content blocks must be an array');
+    }
+
+    if (raw.length > MAX_BLOCKS) {
+      throw new ValidationError(`Content can have at most ${MAX_BLOCKS} blocks`);
+    }
+
+    return raw.map((block, index) => this.validateBlock(block, `Block ${index + 1}`));
+  }
+
+  /**
+   * Blocks of a module or lesson; legacy plain content is a single markdown block
+   */
+  blocksOf(record: StoredContent): ContentBlock[] {
+    if (Array.isArray(record.contentBlocks)) {
+      return record.contentBlocks as unknown as ContentBlock[];
+    }
+
+    return record.content ? [{ type: 'markdown', text: record.content }] : [];
+  }
+
+  /**
+   * Sanitized HTML, table of contents and reading time of the given blocks
+   */
+  render(blocks: ContentBlock[]): RenderedContent {
+    const toc: TocEntry[] = [];
+    const slugs = new Map<string, number>();
+    const markdown = this.markdownRenderer(toc, slugs);
+
+    const html = blocks
+      .map((block) => {
+        switch (block.type) {
+          case 'markdown':
+            return markdown.parse(block.text) as string;
+          case 'image':
+            return `<figure><img src="${escapeHtml(block.url)}" alt="${escapeHtml(block.alt)}">${
+              block.caption ? `<figcaption>${escapeHtml(block.caption)}</figcaption>` : ''
+            }</figure>`;
+          case 'code':
+            return `<pre><code${
+              block.language ? ` class="language-${escapeHtml(block.language)}"` : ''
+            }>${escapeHtml(block.code)}</code></pre>`;
+          case 'callout':
+            return `<aside class="callout callout-${block.variant}">${
+              block.title ? `<p class="callout-title">${escapeHtml(block.title)}</p>` : ''
+            }${markdown.parse(block.text) as string}</aside>`;
+          case 'quiz':
+            return `<div class="quiz-checkpoint" data-quiz-id="${escapeHtml(block.quizId)}">${escapeHtml(
+              block.title ?? 'Quiz checkpoint'
+            )}</div>`;
+        }
+      })
+      .join('\n');
+
+    return {
+      html: sanitize(html, SANITIZE_OPTIONS),
+      toc,
+      readingMinutes: this.readingMinutes(blocks),
+    };
+  }
+
+  /**
+   * Estimated minutes to work through the blocks: prose at 200 words per minute,
+   * code at half that, plus fixed time per image and quiz checkpoint
+   */
+  readingMinutes(blocks: ContentBlock[]): number {
+    const words = (text: string) => text.split(/\s+/).filter((word) => /\w/.test(word)).length;
+
+    const seconds = blocks.reduce((total, block) => {
+      switch (block.type) {
+        case 'markdown':
+          return total + (words(block.text) / WORDS_PER_MINUTE) * 60;
+        case 'callout':
+          return total + (words(`${block.title ?? ''} ${block.text}`) / WORDS_PER_MINUTE) * 60;
+        case 'code':
+          return total + (words(block.code) / (WORDS_PER_MINUTE / 2)) * 60;
+        case 'image':
+          return total + IMAGE_SECONDS;
+        case 'quiz':
+          return total + CHECKPOINT_SECONDS;
+      }
+    }, 0);
+
+    return seconds > 0 ? Math.max(1, Math.ceil(seconds / 60)) : 0;
+  }
+
+  // Headings get unique ids and, up to level 3, an entry in the table of contents
+  private markdownRenderer(toc: TocEntry[], slugs: Map<string, number>) {
+    return new Marked({ gfm: true }).use({
+      renderer: {
+        heading(token: Tokens.Heading) {
+          const text = token.text.replace(/[*_`~[\]]/g, '').trim();
+          const base =
+            text
+              .toLowerCase()
+              .replace(/[^a-z0-9]+/g, '-')
+              .replace(/^-|-$/g, '') || 'section';
+          const count = slugs.get(base) ?? 0;
+          const id = count === 0 ? base : `${base}-${count}`;
+          slugs.set(base, count + 1);
+
+          if (token.depth <= TOC_MAX_LEVEL) {
+            toc.push({ id, text, level: token.depth });
+          }
+
+          return `<h${token.depth} id="${id}">${this.parser.parseInline(token.tokens)}</h${token.depth}>\n`;
+        },
+      },
+    });
+  }
+
+  private validateBlock(raw: unknown, label: string): ContentBlock {
+    const block = raw as Record<string, unknown>;
+
+    if (!block || !CONTENT_BLOCK_TYPES.includes(block.type as ContentBlock['type'])) {
+      throw new ValidationError(`${label}: type must be one of ${CONTENT_BLOCK_TYPES.join(', ')}`);
+    }
+
+    switch (block.type) {
+      case 'markdown':
+        if (!isText(block.text)) {
+          throw new ValidationError(`${label}: text is required`);
+        }
+        return { type: 'markdown', text: block.text };
+
+      case 'image': {
+        const url = block.url;
+        if (
+          !isText(url, 2000) ||
+          !(url.startsWith('https://') || (url.startsWith('/') && !url.startsWith('//')))
+        ) {
+          throw new ValidationError(`${label}: url must be an https URL or a path on this server`);
+        }
+        if (!isText(block.alt, 500)) {
+          throw new ValidationError(`${label}: alt text is required`);
+        }
+        if (block.caption !== undefined && !isText(block.caption, 500)) {
+          throw new ValidationError(`${label}: caption must be a non-empty string`);
+        }
+        return {
+          type: 'image',
+          url,
+          alt: block.alt,
+          ...(block.caption !== undefined ? { caption: block.caption as string } : {}),
+        };
+      }
+
+      case 'code':
+        if (!isText(block.code)) {
+          throw new ValidationError(`${label}: code is required`);
+        }
+        if (
+          block.language !== undefined &&
+          !(typeof block.language === 'string' && /^[a-z0-9+#-]{1,30}$/i.test(block.language))
+        ) {
+          throw new ValidationError(`${label}: invalid language`);
+        }
+        return {
+          type: 'code',
+          code: block.code,
+          ...(block.language !== undefined ? { language: block.language as string } : {}),
+        };
+
+      case 'callout':
+        if (!CALLOUT_VARIANTS.includes(block.variant as CalloutVariant)) {
+          throw new ValidationError(`${label}: variant must be one of ${CALLOUT_VARIANTS.join(', ')}`);
+        }
+        if (!isText(block.text)) {
+          throw new ValidationError(`${label}: text is required`);
+        }
+        if (block.title !== undefined && !isText(block.title, 200)) {
+          throw new ValidationError(`${label}: title must be a non-empty string`);
+        }
+        return {
+          type: 'callout',
+          variant: block.variant as CalloutVariant,
+          text: block.text,
+          ...(block.title !== undefined ? { title: block.title as string } : {}),
+        };
+
+      default:
+        if (typeof block.quizId !== 'string') {
+          throw new ValidationError(`${label}: quizId is required`);
+        }
+        if (block.title !== undefined && !isText(block.title, 200)) {
+          throw new ValidationError(`${label}: title must be a non-empty string`);
+        }
+        return {
+          type: 'quiz',
+          quizId: block.quizId,
+          ...(block.title !== undefined ? { title: block.title as string } : {}),
+        };
+    }
+  }
+}
+
+export default new ContentService();
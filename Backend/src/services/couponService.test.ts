@@ -0,0 +1,116 @@
+import { Coupon, CouponType, Prisma } from '@prisma/client';
+import couponService from './couponService';
+
+jest.mock('../config/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn() },
+}));
+
+const coupon = (overrides: Partial<Coupon>): Coupon => ({
+  id: 'coupon-1',
+  code: 'SAVE',
+  description: null,
+  type: CouponType.PERCENTAGE,
+  value: new Prisma.Decimal(10),
+  freeProductId: null,
+  productIds: [],
+  categoryIds: [],
+  maxUses: null,
+  maxUsesPerUser: null,
+  usedCount: 0,
+  startsAt: null,
+  endsAt: null,
+  active: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const items = [
+  {
+    productId: 'hoodie',
+    quantity: 1,
+    product: { name: 'Hoodie', price: new Prisma.Decimal('49.99'), categoryId: 'clothing' },
+  },
+  {
+    productId: 'cap',
+    quantity: 2,
+    product: { name: 'Cap', price: new Prisma.Decimal('15.00'), categoryId: 'clothing' },
+  },
+  {
+    productId: 'sticker',
+    quantity: 3,
+    product: { name: 'Sticker', price: new Prisma.Decimal('1.99'), categoryId: null },
+  },
+];
+
+describe('CouponService.priceCart', () => {
+  it('totals the cart without a coupon', () => {
+    const pricing = couponService.priceCart(items, null);
+
+    expect(pricing.subtotal).toBe(85.96);
+    expect(pricing.discount).toBe(0);
+    expect(pricing.total).toBe(85.96);
+    expect(pricing.coupon).toBeNull();
+  });
+
+  it('applies a percentage only to eligible lines', () => {
+    const pricing = couponService.priceCart(
+      items,
+      coupon({ categoryIds: ['clothing'], value: new Prisma.Decimal(20) })
+    );
+
+    expect(pricing.lines.map((line) => line.discount)).toEqual([10, 6, 0]);
+    expect(pricing.discount).toBe(16);
+    expect(pricing.total).toBe(69.96);
+  });
+
+  it('splits a fixed amount over eligible lines without losing cents', () => {
+    const pricing = couponService.priceCart(
+      items,
+      coupon({
+        type: CouponType.FIXED_AMOUNT,
+        value: new Prisma.Decimal(10),
+        productIds: ['hoodie', 'sticker'],
+      })
+    );
+
+    expect(pricing.lines.map((line) => line.discount)).toEqual([8.93, 0, 1.07]);
+    expect(pricing.discount).toBe(10);
+  });
+
+  it('caps a fixed amount at the eligible total', () => {
+    const pricing = couponService.priceCart(
+      items,
+      coupon({
+        type: CouponType.FIXED_AMOUNT,
+        value: new Prisma.Decimal(100),
+        productIds: ['sticker'],
+      })
+    );
+
+    expect(pricing.discount).toBe(5.97);
+    expect(pricing.total).toBe(79.99);
+  });
+
+  it('takes one unit of the free item off', () => {
+    const pricing = couponService.priceCart(
+      items,
+      coupon({ type: CouponType.FREE_ITEM, freeProductId: 'cap' })
+    );
+
+    expect(pricing.discount).toBe(15);
+    expect(pricing.coupon).toMatchObject({ code: 'SAVE', type: CouponType.FREE_ITEM });
+  });
+
+  it('leaves out a coupon that discounts nothing', () => {
+    const pricing = couponService.priceCart(
+      items,
+      coupon({ type: CouponType.FREE_ITEM, freeProductId: 'mug' })
+    );
+
+    expect(pricing.discount).toBe(0);
+    expect(pricing.coupon).toBeNull();
+  });
+});
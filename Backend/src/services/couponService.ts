@@ -0,0 +1,424 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { Coupon, CouponType, Prisma } from '@prisma/client';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+type Db = Prisma.TransactionClient;
+
+interface PricedCartItem {
+  productId: string;
+  quantity: number;
+  product: {
+    name: string;
+    price: Prisma.Decimal | number;
+    categoryId: string | null;
+  };
+}
+
+export interface PricedLine {
+  productId: string;
+  name: string;
+  price: number;
+  quantity: number;
+  discount: number;
+}
+
+export interface CartPricing {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  coupon: { code: string; type: CouponType; description: string | null } | null;
+}
+
+export interface CouponInput {
+  code: string;
+  description?: string;
+  type: CouponType;
+  value?: number;
+  freeProductId?: string | null;
+  productIds?: string[];
+  categoryIds?: string[];
+  maxUses?: number | null;
+  maxUsesPerUser?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  active?: boolean;
+}
+
+const toCents = (value: Prisma.Decimal | number): number => Math.round(Number(value) * 100);
+
+export class CouponService {
+  /**
+   * List coupons for the admin screens
+   */
+  async getCoupons(page: number = 1, limit: number = 20, active?: boolean) {
+    try {
+      const where: Prisma.CouponWhereInput = active === undefined ? {} : { active };
+
+      const [coupons, total] = await Promise.all([
+        prisma.coupon.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+        }),
+        prisma.coupon.count({ where }),
+      ]);
+
+      return { coupons, total, page, totalPages: Math.ceil(total / limit) };
+    } catch (error) {
+      logger.error('Error fetching coupons:', error);
+      throw new Error('Failed to fetch coupons');
+    }
+  }
+
+  /**
+   * Create a coupon; codes are stored upper-case
+   */
+  async createCoupon(data: CouponInput) {
+    try {
+      this.assertConsistent(data);
+
+      return await prisma.coupon.create({
+        data: { ...this.pickFields(data), code: data.code.trim().toUpperCase(), type: data.type },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Coupon code already exists');
+      }
+      logger.error('Error creating coupon:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a coupon
+   */
+  async updateCoupon(id: string, data: Partial<CouponInput>) {
+    try {
+      const existing = await prisma.coupon.findUnique({ where: { id } });
+
+      if (!existing) {
+        throw new NotFoundError('Coupon not found');
+      }
+
+      this.assertConsistent({
+        type: data.type ?? existing.type,
+        value: data.value ?? Number(existing.value),
+        freeProductId: data.freeProductId !== undefined ? data.freeProductId : existing.freeProductId,
+        startsAt: data.startsAt !== undefined ? data.startsAt : existing.startsAt,
+        endsAt: data.endsAt !== undefined ? data.endsAt : existing.endsAt,
+      });
+
+      return await prisma.coupon.update({
+        where: { id },
+        data: this.pickFields(data),
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Coupon code already exists');
+      }
+      logger.error('Error updating coupon:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a coupon that was never redeemed, otherwise deactivate it
+   */
+  async deleteCoupon(id: string) {
+    try {
+      const redemptions = await prisma.couponRedemption.count({ where: { couponId: id } });
+
+      if (redemptions > 0) {
+        await prisma.coupon.update({ where: { id }, data: { active: false } });
+        return { deleted: false };
+      }
+
+      await prisma.coupon.delete({ where: { id } });
+      return { deleted: true };
+    } catch (error) {
+      logger.error('Error deleting coupon:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a coupon code to the user's cart
+   */
+  async applyToCart(userId: string, code: string) {
+    try {
+      const coupon = await prisma.coupon.findUnique({
+        where: { code: code.trim().toUpperCase() },
+      });
+
+      if (!coupon) {
+        throw new NotFoundError('Invalid coupon code');
+      }
+
+      const items = await this.getCartItems(userId, prisma);
+
+      if (items.length === 0) {
+        throw new ValidationError('Cart is empty');
+      }
+
+      await this.assertUsable(coupon, userId, items, prisma);
+
+      await prisma.cartCoupon.upsert({
+        where: { userId },
+        create: { userId, couponId: coupon.id },
+        update: { couponId: coupon.id, appliedAt: new Date() },
+      });
+
+      logger.info(`User ${userId} applied coupon ${coupon.code}`);
+
+      return this.priceCart(items, coupon);
+    } catch (error) {
+      logger.error('Error applying coupon:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the coupon from the user's cart
+   */
+  async removeFromCart(userId: string) {
+    try {
+      await prisma.cartCoupon.deleteMany({ where: { userId } });
+      return this.getCartPricing(userId);
+    } catch (error) {
+      logger.error('Error removing coupon:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Price the user's cart. A coupon that stopped being usable is left out
+   * and the reason is returned so the client can tell the user.
+   */
+  async getCartPricing(userId: string) {
+    const items = await this.getCartItems(userId, prisma);
+    const coupon = await this.getAppliedCoupon(userId, prisma);
+
+    if (coupon) {
+      try {
+        await this.assertUsable(coupon, userId, items, prisma);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return { items, ...this.priceCart(items, null), couponError: error.message };
+        }
+        throw error;
+      }
+    }
+
+    return { items, ...this.priceCart(items, coupon), couponError: null };
+  }
+
+  /**
+   * Get the coupon currently applied to a cart
+   */
+  async getAppliedCoupon(userId: string, db: Db) {
+    const cartCoupon = await db.cartCoupon.findUnique({
+      where: { userId },
+      include: { coupon: true },
+    });
+
+    return cartCoupon?.coupon ?? null;
+  }
+
+  /**
+   * Throw a ValidationError explaining why the coupon cannot be used on these items
+   */
+  async assertUsable(coupon: Coupon, userId: string, items: PricedCartItem[], db: Db) {
+    const now = new Date();
+
+    if (!coupon.active) {
+      throw new ValidationError('Coupon is no longer active');
+    }
+
+    if (coupon.startsAt && coupon.startsAt > now) {
+      throw new ValidationError('Coupon is not valid yet');
+    }
+
+    if (coupon.endsAt && coupon.endsAt <= now) {
+      throw new ValidationError('Coupon has expired');
+    }
+
+    if (coupon.maxUses !== null && coupon.usedCount >= coupon.maxUses) {
+      throw new ValidationError('Coupon usage limit reached');
+    }
+
+    if (coupon.maxUsesPerUser !== null) {
+      const used = await db.couponRedemption.count({
+        where: { couponId: coupon.id, userId },
+      });
+
+      if (used >= coupon.maxUsesPerUser) {
+        throw new ValidationError('You have already used this coupon');
+      }
+    }
+
+    if (this.priceCart(items, coupon).discount <= 0) {
+      throw new ValidationError('Coupon does not apply to any item in your cart');
+    }
+  }
+
+  /**
+   * Compute line and cart totals with the coupon's discount spread over eligible lines
+   */
+  priceCart(items: PricedCartItem[], coupon: Coupon | null): CartPricing {
+    const lines = items.map((item) => ({
+      item,
+      cents: toCents(item.product.price) * item.quantity,
+      discount: 0,
+    }));
+
+    if (coupon) {
+      const eligible = lines.filter((line) => this.isEligible(coupon, line.item));
+
+      if (coupon.type === CouponType.PERCENTAGE) {
+        const percent = Math.min(Number(coupon.value), 100);
+        eligible.forEach((line) => {
+          line.discount = Math.round((line.cents * percent) / 100);
+        });
+      } else if (coupon.type === CouponType.FIXED_AMOUNT) {
+        const eligibleCents = eligible.reduce((sum, line) => sum + line.cents, 0);
+        const cap = Math.min(toCents(coupon.value), eligibleCents);
+        let allocated = 0;
+
+        // Proportional split; the last eligible line absorbs the rounding remainder
+        eligible.forEach((line, position) => {
+          line.discount = position === eligible.length - 1
+            ? cap - allocated
+            : Math.round((cap * line.cents) / eligibleCents);
+          allocated += line.discount;
+        });
+      } else if (coupon.type === CouponType.FREE_ITEM) {
+        const free = lines.find((line) => line.item.productId === coupon.freeProductId);
+        if (free) {
+          free.discount = toCents(free.item.product.price);
+        }
+      }
+    }
+
+    const subtotal = lines.reduce((sum, line) => sum + line.cents, 0);
+    const discount = lines.reduce((sum, line) => sum + line.discount, 0);
+
+    return {
+      lines: lines.map(({ item, discount: lineDiscount }) => ({
+        productId: item.productId,
+        name: item.product.name,
+        price: Number(item.product.price),
+        quantity: item.quantity,
+        discount: lineDiscount / 100,
+      })),
+      subtotal: subtotal / 100,
+      discount: discount / 100,
+      total: Math.max(subtotal - discount, 0) / 100,
+      coupon: coupon && discount > 0
+        ? { code: coupon.code, type: coupon.type, description: coupon.description }
+        : null,
+    };
+  }
+
+  /**
+   * Consume one use of the coupon for an order (call inside the checkout transaction)
+   */
+  async redeem(tx: Db, coupon: Coupon, userId: string, orderId: string, discount: number) {
+    // Optimistic check on usedCount so two checkouts cannot both take the last use
+    const { count } = await tx.coupon.updateMany({
+      where: { id: coupon.id, usedCount: coupon.usedCount },
+      data: { usedCount: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new ConflictError('Coupon was used concurrently, please retry checkout');
+    }
+
+    await tx.couponRedemption.create({
+      data: { couponId: coupon.id, userId, orderId, discount },
+    });
+
+    await tx.cartCoupon.deleteMany({ where: { userId } });
+  }
+
+  /**
+   * Give back the coupon use of a cancelled order
+   */
+  async releaseRedemption(tx: Db, orderId: string) {
+    const redemption = await tx.couponRedemption.findUnique({ where: { orderId } });
+
+    if (!redemption) {
+      return;
+    }
+
+    await tx.couponRedemption.delete({ where: { id: redemption.id } });
+    await tx.coupon.update({
+      where: { id: redemption.couponId },
+      data: { usedCount: { decrement: 1 } },
+    });
+  }
+
+  private isEligible(coupon: Coupon, item: PricedCartItem): boolean {
+    if (coupon.productIds.length === 0 && coupon.categoryIds.length === 0) {
+      return true;
+    }
+
+    return (
+      coupon.productIds.includes(item.productId) ||
+      (!!item.product.categoryId && coupon.categoryIds.includes(item.product.categoryId))
+    );
+  }
+
+  private assertConsistent(data: Partial<CouponInput>) {
+    if (data.type === CouponType.PERCENTAGE && (!data.value || data.value <= 0 || data.value > 100)) {
+      throw new ValidationError('Percentage coupons need a value between 0 and 100');
+    }
+
+    if (data.type === CouponType.FIXED_AMOUNT && (!data.value || data.value <= 0)) {
+      throw new ValidationError('Fixed amount coupons need a positive value');
+    }
+
+    if (data.type === CouponType.FREE_ITEM && !data.freeProductId) {
+      throw new ValidationError('Free item coupons need a freeProductId');
+    }
+
+    if (data.startsAt && data.endsAt && data.startsAt >= data.endsAt) {
+      throw new ValidationError('startsAt must be before endsAt');
+    }
+  }
+
+  /**
+   * Keep only the fields admins may set; usage counters stay server-managed
+   */
+  private pickFields(data: Partial<CouponInput>): Partial<CouponInput> {
+    return {
+      code: data.code?.trim().toUpperCase(),
+      description: data.description,
+      type: data.type,
+      value: data.value,
+      freeProductId: data.freeProductId,
+      productIds: data.productIds,
+      categoryIds: data.categoryIds,
+      maxUses: data.maxUses,
+      maxUsesPerUser: data.maxUsesPerUser,
+      startsAt: data.startsAt,
+      endsAt: data.endsAt,
+      active: data.active,
+    };
+  }
+
+  private getCartItems(userId: string, db: Db) {
+    return db.cartItem.findMany({
+      where: { userId },
+      include: {
+        product: {
+          include: { category: true },
+        },
+      },
+    });
+  }
+}
+
+export default new CouponService();
@@ -2,6 +2,7 @@ import nodemailer, { Transporter } from 'nodemailer';
 import Bull, { Queue, Job } from 'bull';
 import logger from '../config/logger';
 import { InternalServerError } from '../utils/errors';
+import { sanitizeHtml } from '../utils/validators';
 
 interface EmailJob {
   to: string;
@@ -307,6 +308,72 @@ class EmailService {
     }
   }
 
+  /**
+   * Send order status update email
+   */
+  async sendOrderStatusEmail(
+    user: User,
+    orderId: string,
+    status: string,
+    trackingNumber?: string | null
+  ): Promise<void> {
+    try {
+      const statusLabels: Record<string, string> = {
+        PAID: 'confirmed',
+        SHIPPED: 'shipped',
+        DELIVERED: 'delivered',
+        CANCELLED: 'cancelled',
+        REFUNDED: 'refunded',
+      };
+      const label = statusLabels[status] || status.toLowerCase();
+      const shortId = orderId.slice(0, 8).toUpperCase();
+
+      const html = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .tracking { 
+              margin: 20px 0; 
+              padding: 10px; 
+              background-color: #f8f9fa; 
+              border-left: 4px solid #007bff;
+            }
+            .button { 
+              display: inline-block; 
+              padding: 12px 24px; 
+              background-color: #007bff; 
+              color: #ffffff; 
+              text-decoration: none; 
+              border-radius: 4px; 
+              margin: 20px 0;
+            }
+            .footer { margin-top: 30px; font-size: 12px; color: #666; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <h1>Hello ${sanitizeHtml(user.username)},</h1>
+            <p>Your order <strong>#${shortId}</strong> has been ${label}.</p>
+            ${trackingNumber ? `<div class="tracking">Tracking number: <strong>${sanitizeHtml(trackingNumber)}</strong></div>` : ''}
+            <a href="${process.env.APP_URL}/shop/orders/${orderId}" class="button">View Order</a>
+            <div class="footer">
+              <p>Need help? Contact us at support@illegal-street.com</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `;
+
+      await this.sendEmail(user.email, `Order #${shortId} ${label} - Illegal Street`, html);
+    } catch (error) {
+      logger.error('Send order status email error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Close queue connection
    */
@@ -15,6 +15,23 @@ export { default as rankingService } from './rankingService';
 export { default as shopService } from './shopService';
 export { default as chatService } from './chatService';
 export { default as moduleService } from './moduleService';
+export { default as contentService } from './contentService';
+export { default as prerequisiteService } from './prerequisiteService';
+export { default as learningPathService } from './learningPathService';
+export { default as certificateService } from './certificateService';
+export { default as revisionService } from './revisionService';
+export { default as trendingService } from './trendingService';
+export { default as recommendationService } from './recommendationService';
+export { default as searchService } from './searchService';
 export { default as adminService } from './adminService';
 export { default as quizService } from './quizService';
+export { default as questionBankService } from './questionBankService';
+export { default as quizFormatService } from './quizFormatService';
 export { default as cookieConsentService } from './cookieConsentService';
+export { default as accountStatusService } from './accountStatusService';
+export { default as paymentService } from './paymentService';
+export { default as orderService } from './orderService';
+export { default as couponService } from './couponService';
+export { default as pointsService } from './pointsService';
+export { default as progressionService } from './progressionService';
+export { default as achievementService } from './achievementService';
@@ -0,0 +1,310 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { Difficulty, ModuleStatus, PointsReason, Prisma, PublishStatus } from '@prisma/client';
+import progressionService from './progressionService';
+import achievementService from './achievementService';
+import certificateService from './certificateService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+interface PathStepInput {
+  moduleId: string;
+  position: number;
+}
+
+interface LearningPathInput {
+  title: string;
+  description?: string | null;
+  difficulty?: Difficulty | null;
+  points?: number;
+  badgeKey?: string | null;
+  publishStatus?: PublishStatus;
+  steps: PathStepInput[];
+}
+
+const stepInclude = {
+  steps: {
+    include: { module: { select: { id: true, title: true, difficulty: true, points: true } } },
+    orderBy: [{ position: 'asc' }, { moduleId: 'asc' }],
+  },
+} satisfies Prisma.LearningPathInclude;
+
+type PathWithSteps = Prisma.LearningPathGetPayload<{ include: typeof stepInclude }>;
+
+/**
+ * Learning Path Service
+ * Ordered tracks of modules with enrollments and path-level completion rewards
+ */
+export class LearningPathService {
+  /**
+   * List paths with their step and enrollment counts
+   */
+  async getPaths(includeUnpublished: boolean = false) {
+    try {
+      return await prisma.learningPath.findMany({
+        where: includeUnpublished ? {} : { publishStatus: PublishStatus.PUBLISHED },
+        include: { _count: { select: { steps: true, enrollments: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      logger.error('Error fetching learning paths:', error);
+      throw new Error('Failed to fetch learning paths');
+    }
+  }
+
+  /**
+   * Get a path with its steps, plus the user's progress per position when enrolled
+   */
+  async getPath(pathId: string, userId?: string, includeUnpublished: boolean = false) {
+    const path = await this.findPath(pathId, includeUnpublished);
+
+    const enrollment = userId
+      ? await prisma.pathEnrollment.findUnique({ where: { userId_pathId: { userId, pathId } } })
+      : null;
+
+    return {
+      ...path,
+      enrollment,
+      progress: enrollment ? await this.progressFor(userId!, path) : null,
+    };
+  }
+
+  /**
+   * Create a path with its steps
+   */
+  async createPath(data: LearningPathInput) {
+    const { steps, ...fields } = data;
+
+    await this.assertSteps(steps);
+    await this.assertBadge(fields.badgeKey);
+
+    const path = await prisma.learningPath.create({
+      data: { ...fields, steps: { create: steps } },
+      include: stepInclude,
+    });
+
+    logger.info(`Learning path ${path.id} created`);
+
+    return path;
+  }
+
+  /**
+   * Update a path; given steps replace the existing ones
+   */
+  async updatePath(pathId: string, data: Partial<LearningPathInput>) {
+    const { steps, ...fields } = data;
+
+    await this.findPath(pathId, true);
+
+    if (steps) {
+      await this.assertSteps(steps);
+    }
+    await this.assertBadge(fields.badgeKey);
+
+    const path = await prisma.learningPath.update({
+      where: { id: pathId },
+      data: {
+        ...fields,
+        ...(steps ? { steps: { deleteMany: {}, create: steps } } : {}),
+      },
+      include: stepInclude,
+    });
+
+    logger.info(`Learning path ${pathId} updated`);
+
+    return path;
+  }
+
+  /**
+   * Delete a path along with its enrollments
+   */
+  async deletePath(pathId: string) {
+    await this.findPath(pathId, true);
+    await prisma.learningPath.delete({ where: { id: pathId } });
+
+    logger.info(`Learning path ${pathId} deleted`);
+  }
+
+  /**
+   * Enroll a user in a published path; modules finished earlier already count
+   */
+  async enroll(userId: string, pathId: string) {
+    const path = await this.findPath(pathId);
+
+    try {
+      await prisma.pathEnrollment.create({ data: { userId, pathId } });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Already enrolled in this path');
+      }
+      throw error;
+    }
+
+    logger.info(`User ${userId} enrolled in learning path ${pathId}`);
+
+    await this.checkCompletion(userId, path);
+
+    return this.getPath(pathId, userId);
+  }
+
+  /**
+   * Leave a path
+   */
+  async unenroll(userId: string, pathId: string) {
+    const { count } = await prisma.pathEnrollment.deleteMany({ where: { userId, pathId } });
+
+    if (count === 0) {
+      throw new NotFoundError('Not enrolled in this path');
+    }
+  }
+
+  /**
+   * Paths the user is enrolled in, with progress
+   */
+  async getUserPaths(userId: string) {
+    const enrollments = await prisma.pathEnrollment.findMany({
+      where: { userId },
+      include: { path: { include: stepInclude } },
+      orderBy: { enrolledAt: 'desc' },
+    });
+
+    return Promise.all(
+      enrollments.map(async ({ path, ...enrollment }) => ({
+        ...enrollment,
+        path: { id: path.id, title: path.title, description: path.description, difficulty: path.difficulty },
+        progress: await this.progressFor(userId, path),
+      }))
+    );
+  }
+
+  /**
+   * Complete the user's unfinished paths that contain a module they just completed
+   */
+  async syncModuleCompletion(userId: string, moduleId: string) {
+    const enrollments = await prisma.pathEnrollment.findMany({
+      where: { userId, completedAt: null, path: { steps: { some: { moduleId } } } },
+      include: { path: { include: stepInclude } },
+    });
+
+    for (const enrollment of enrollments) {
+      await this.checkCompletion(userId, enrollment.path);
+    }
+  }
+
+  private async findPath(pathId: string, includeUnpublished: boolean = false): Promise<PathWithSteps> {
+    const path = await prisma.learningPath.findUnique({
+      where: { id: pathId },
+      include: stepInclude,
+    });
+
+    if (!path || (!includeUnpublished && path.publishStatus !== PublishStatus.PUBLISHED)) {
+      throw new NotFoundError('Learning path not found');
+    }
+
+    return path;
+  }
+
+  // Each position counts once; any completed branch at a position completes it
+  private async progressFor(userId: string, path: PathWithSteps) {
+    const completed = await prisma.userProgress.findMany({
+      where: {
+        userId,
+        status: ModuleStatus.COMPLETED,
+        moduleId: { in: path.steps.map((step) => step.moduleId) },
+      },
+      select: { moduleId: true },
+    });
+    const completedIds = new Set(completed.map((entry) => entry.moduleId));
+
+    const positions = [...new Set(path.steps.map((step) => step.position))];
+    const stages = positions.map((position) => {
+      const modules = path.steps
+        .filter((step) => step.position === position)
+        .map((step) => ({ ...step.module, completed: completedIds.has(step.moduleId) }));
+      return { position, completed: modules.some((module) => module.completed), modules };
+    });
+
+    const completedStages = stages.filter((stage) => stage.completed).length;
+
+    return {
+      completedStages,
+      totalStages: stages.length,
+      percentComplete: stages.length > 0 ? Math.round((completedStages / stages.length) * 10000) / 100 : 0,
+      nextStage: stages.find((stage) => !stage.completed) ?? null,
+      stages,
+    };
+  }
+
+  private async checkCompletion(userId: string, path: PathWithSteps) {
+    const progress = await this.progressFor(userId, path);
+
+    if (progress.totalStages === 0 || progress.completedStages < progress.totalStages) {
+      return false;
+    }
+
+    // Guarded on completedAt so the rewards are handed out once
+    const { count } = await prisma.pathEnrollment.updateMany({
+      where: { userId, pathId: path.id, completedAt: null },
+      data: { completedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    logger.info(`User ${userId} completed learning path ${path.id}`);
+
+    if (path.points > 0) {
+      await progressionService.awardPoints(userId, path.points, PointsReason.PATH_COMPLETION, {
+        referenceId: path.id,
+        once: true,
+      });
+      await achievementService.evaluate(userId, 'points_changed');
+    }
+
+    if (path.badgeKey) {
+      await achievementService.grant(userId, path.badgeKey);
+    }
+
+    await certificateService.issueForPath(userId, path.id);
+
+    return true;
+  }
+
+  private async assertSteps(steps: PathStepInput[]) {
+    if (!Array.isArray(steps) || steps.length === 0) {
+      throw new ValidationError('A learning path needs at least one step');
+    }
+
+    steps.forEach((step, index) => {
+      if (typeof step?.moduleId !== 'string' || !Number.isInteger(step.position) || step.position < 1) {
+        throw new ValidationError(`Step ${index + 1}: moduleId and a positive position are required`);
+      }
+    });
+
+    const moduleIds = new Set(steps.map((step) => step.moduleId));
+
+    if (moduleIds.size !== steps.length) {
+      throw new ValidationError('Each module can only appear once in a path');
+    }
+
+    const found = await prisma.module.count({ where: { id: { in: [...moduleIds] } } });
+
+    if (found !== moduleIds.size) {
+      throw new NotFoundError('One or more step modules were not found');
+    }
+  }
+
+  private async assertBadge(badgeKey?: string | null) {
+    if (!badgeKey) {
+      return;
+    }
+
+    const definition = await prisma.achievementDefinition.findUnique({ where: { key: badgeKey } });
+
+    if (!definition) {
+      throw new NotFoundError('Achievement definition not found');
+    }
+  }
+}
+
+export default new LearningPathService();
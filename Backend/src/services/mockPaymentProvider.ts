@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import {
+  CreateIntentParams,
+  PaymentConfirmation,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  RefundResult,
+} from '../types/payment';
+
+// Payment method that makes the mock gateway decline the charge
+export const MOCK_DECLINED_METHOD = 'mock_card_declined';
+
+/**
+ * Fully local payment gateway for development and tests; confirms any payment method
+ * except MOCK_DECLINED_METHOD, so it must never run in production.
+ * Never talks to the network; webhooks are HMAC-SHA256 signed with
+ * PAYMENT_WEBHOOK_SECRET just like a real provider would sign them, and are
+ * rejected while no secret is configured.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+  private webhookSecret?: string;
+
+  constructor(webhookSecret?: string) {
+    this.webhookSecret = webhookSecret;
+  }
+
+  async createIntent(params: CreateIntentParams): Promise<PaymentIntent> {
+    const id = `mock_pi_${crypto.randomUUID()}`;
+
+    return {
+      id,
+      clientSecret: `${id}_secret_${crypto.randomBytes(12).toString('hex')}`,
+      status: 'requires_confirmation',
+      amount: params.amount,
+      currency: params.currency,
+    };
+  }
+
+  async confirm(intentId: string, paymentMethod: string): Promise<PaymentConfirmation> {
+    if (paymentMethod === MOCK_DECLINED_METHOD) {
+      return { id: intentId, status: 'failed', failureReason: 'Card declined' };
+    }
+
+    return { id: intentId, status: 'succeeded' };
+  }
+
+  async refund(_intentId: string, amount: number): Promise<RefundResult> {
+    return {
+      id: `mock_re_${crypto.randomUUID()}`,
+      amount,
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, signature: string): PaymentWebhookEvent | null {
+    if (!this.webhookSecret) {
+      return null;
+    }
+
+    const expected = this.sign(rawBody);
+
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(rawBody.toString('utf8')) as PaymentWebhookEvent;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Produce the signature header for a webhook payload (handy for local testing)
+   */
+  sign(payload: Buffer | string): string {
+    if (!this.webhookSecret) {
+      throw new Error('PAYMENT_WEBHOOK_SECRET is not set');
+    }
+
+    return crypto.createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+  }
+}
@@ -1,7 +1,53 @@
 import prisma from '../config/prisma';
 import logger from '../config/logger';
+import { PointsReason, Prisma, PublishStatus, RevisionEntity } from '@prisma/client';
+import progressionService from './progressionService';
+import achievementService from './achievementService';
+import quizGradingService from './quizGradingService';
+import prerequisiteService from './prerequisiteService';
+import contentService from './contentService';
+import revisionService from './revisionService';
+import { NotFoundError } from '../utils/errors';
+
+const PREVIEW_ROLES = ['ADMIN', 'SUPER_ADMIN'];
+
+interface LessonInput {
+  title?: string;
+  lessonNumber?: number;
+  content?: string | null;
+  contentBlocks?: unknown;
+  // Minutes; estimated from the content when omitted
+  duration?: number | null;
+}
 
 export class ModuleService {
+  /**
+   * Whether a user role may preview draft, scheduled and archived modules
+   */
+  canPreview(role?: string): boolean {
+    return !!role && PREVIEW_ROLES.includes(role);
+  }
+
+  /**
+   * Where-clause matching modules visible to regular users
+   */
+  visibleWhere(): Prisma.ModuleWhereInput {
+    return {
+      publishStatus: PublishStatus.PUBLISHED,
+      OR: [{ publishAt: null }, { publishAt: { lte: new Date() } }],
+    };
+  }
+
+  /**
+   * Whether a single module is currently visible to regular users
+   */
+  isVisible(module: { publishStatus: PublishStatus; publishAt: Date | null }): boolean {
+    return (
+      module.publishStatus === PublishStatus.PUBLISHED &&
+      (!module.publishAt || module.publishAt <= new Date())
+    );
+  }
+
   /**
    * Get all modules with filters
    */
@@ -11,6 +57,9 @@ export class ModuleService {
     search?: string;
     page?: number;
     limit?: number;
+    includeUnpublished?: boolean;
+    // Adds the lock state for this user; without it locked modules list every requirement
+    userId?: string;
   }) {
     try {
       const {
@@ -19,10 +68,12 @@ export class ModuleService {
         search,
         page = 1,
         limit = 20,
+        includeUnpublished = false,
+        userId,
       } = filters;
       const skip = (page - 1) * limit;
 
-      const where: any = {};
+      const where: any = includeUnpublished ? {} : { AND: [this.visibleWhere()] };
 
       if (category) {
         where.category = category;
@@ -57,8 +108,16 @@ export class ModuleService {
         prisma.module.count({ where }),
       ]);
 
+      const lockStates = await prerequisiteService.getLockStates(
+        userId,
+        modules.map((module) => module.id)
+      );
+
       return {
-        modules,
+        modules: modules.map((module) => ({
+          ...module,
+          ...(lockStates.get(module.id) ?? { locked: false, unmetRequirements: [] }),
+        })),
         total,
         page,
         totalPages: Math.ceil(total / limit),
@@ -72,7 +131,7 @@ export class ModuleService {
   /**
    * Get module by ID
    */
-  async getModuleById(id: string, userId?: string) {
+  async getModuleById(id: string, userId?: string, includeUnpublished: boolean = false) {
     try {
       const module = await prisma.module.findUnique({
         where: { id },
@@ -89,7 +148,7 @@ export class ModuleService {
         },
       });
 
-      if (!module) {
+      if (!module || (!includeUnpublished && !this.isVisible(module))) {
         throw new Error('Module not found');
       }
 
@@ -103,8 +162,11 @@ export class ModuleService {
         });
       }
 
+      const lockState = (await prerequisiteService.getLockStates(userId, [id])).get(id);
+
       return {
         ...module,
+        ...lockState,
         userProgress,
       };
     } catch (error) {
@@ -128,6 +190,105 @@ export class ModuleService {
     }
   }
 
+  /**
+   * Rendered module content with each lesson's HTML, table of contents and reading time
+   */
+  async getModuleContent(moduleId: string) {
+    const module = await prisma.module.findUnique({
+      where: { id: moduleId },
+      include: { courses: { orderBy: { lessonNumber: 'asc' } } },
+    });
+
+    if (!module) {
+      throw new NotFoundError('Module not found');
+    }
+
+    return {
+      id: module.id,
+      title: module.title,
+      ...contentService.render(contentService.blocksOf(module)),
+      lessons: module.courses.map((lesson) => ({
+        id: lesson.id,
+        lessonNumber: lesson.lessonNumber,
+        title: lesson.title,
+        duration: lesson.duration,
+        ...contentService.render(contentService.blocksOf(lesson)),
+      })),
+    };
+  }
+
+  /**
+   * Add a lesson; its duration is estimated from the content unless given
+   */
+  async createLesson(moduleId: string, data: LessonInput, authorId?: string) {
+    const module = await prisma.module.findUnique({ where: { id: moduleId }, select: { id: true } });
+
+    if (!module) {
+      throw new NotFoundError('Module not found');
+    }
+
+    const last = await prisma.course.findFirst({
+      where: { moduleId },
+      orderBy: { lessonNumber: 'desc' },
+      select: { lessonNumber: true },
+    });
+    const content = await this.lessonContent(moduleId, data);
+
+    const lesson = await prisma.course.create({
+      data: {
+        moduleId,
+        title: data.title!,
+        lessonNumber: data.lessonNumber ?? (last?.lessonNumber ?? 0) + 1,
+        ...content,
+      },
+    });
+
+    await revisionService.track(RevisionEntity.LESSON, lesson.id, lesson, authorId);
+
+    logger.info(`Lesson ${lesson.id} added to module ${moduleId}`);
+
+    return lesson;
+  }
+
+  /**
+   * Update a lesson; changed content re-estimates the duration unless one is given
+   */
+  async updateLesson(moduleId: string, lessonId: string, data: LessonInput, authorId?: string) {
+    const lesson = await prisma.course.findFirst({ where: { id: lessonId, moduleId } });
+
+    if (!lesson) {
+      throw new NotFoundError('Lesson not found');
+    }
+
+    const content = await this.lessonContent(moduleId, data, lesson);
+
+    const updated = await prisma.course.update({
+      where: { id: lessonId },
+      data: {
+        title: data.title,
+        lessonNumber: data.lessonNumber,
+        ...content,
+      },
+    });
+
+    await revisionService.track(RevisionEntity.LESSON, lessonId, updated, authorId, lesson);
+
+    return updated;
+  }
+
+  /**
+   * Delete a lesson
+   */
+  async deleteLesson(moduleId: string, lessonId: string) {
+    const { count } = await prisma.course.deleteMany({ where: { id: lessonId, moduleId } });
+
+    if (count === 0) {
+      throw new NotFoundError('Lesson not found');
+    }
+
+    logger.info(`Lesson ${lessonId} deleted from module ${moduleId}`);
+  }
+
   /**
    * Get course by ID
    */
@@ -216,19 +377,11 @@ export class ModuleService {
         throw new Error('Quiz not found');
       }
 
-      // Calculate score (simplified)
-      const questions = quiz.questions as any;
-      let correctAnswers = 0;
-      
-      if (Array.isArray(questions)) {
-        questions.forEach((question: any, index: number) => {
-          if (answers[index] === question.correctAnswer) {
-            correctAnswers++;
-          }
-        });
-      }
-
-      const score = (correctAnswers / (questions?.length || 1)) * 100;
+      const grade = quizGradingService.grade(
+        quizGradingService.parseStored(quiz.questions),
+        answers
+      );
+      const score = grade.score;
 
       // Save result
       const result = await prisma.quizResult.create({
@@ -237,25 +390,27 @@ export class ModuleService {
           quizId,
           score,
           answers,
+          questionScores: grade.questionScores as unknown as Prisma.InputJsonArray,
         },
       });
 
-      // Award points if passed
-      if (score >= 70) {
+      // Award points the first time the quiz is passed
+      if (score >= quiz.passingScore) {
         const module = await prisma.module.findUnique({
           where: { id: quiz.moduleId },
         });
 
-        if (module) {
-          await prisma.user.update({
-            where: { id: userId },
-            data: {
-              totalPoints: { increment: Math.floor(module.points * 0.5) },
-            },
+        const points = module ? Math.floor(module.points * 0.5) : 0;
+        if (points > 0) {
+          await progressionService.awardPoints(userId, points, PointsReason.QUIZ_PASSED, {
+            referenceId: quizId,
+            once: true,
           });
         }
       }
 
+      await achievementService.evaluate(userId, 'quiz_submitted');
+
       return result;
     } catch (error) {
       logger.error('Error submitting quiz:', error);
@@ -295,12 +450,70 @@ export class ModuleService {
     }
   }
 
+  /**
+   * Publish a module now or schedule it for a later date
+   */
+  async publishModule(id: string, publishAt?: Date) {
+    try {
+      const scheduled = publishAt && publishAt > new Date();
+
+      return await prisma.module.update({
+        where: { id },
+        data: {
+          publishStatus: PublishStatus.PUBLISHED,
+          publishAt: scheduled ? publishAt : null,
+          publishedAt: scheduled ? publishAt : new Date(),
+        },
+      });
+    } catch (error) {
+      logger.error('Error publishing module:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a module back to draft
+   */
+  async unpublishModule(id: string) {
+    try {
+      return await prisma.module.update({
+        where: { id },
+        data: {
+          publishStatus: PublishStatus.DRAFT,
+          publishAt: null,
+        },
+      });
+    } catch (error) {
+      logger.error('Error unpublishing module:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a module, hiding it from regular users
+   */
+  async archiveModule(id: string) {
+    try {
+      return await prisma.module.update({
+        where: { id },
+        data: {
+          publishStatus: PublishStatus.ARCHIVED,
+          publishAt: null,
+        },
+      });
+    } catch (error) {
+      logger.error('Error archiving module:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get module categories
    */
   async getCategories() {
     try {
       const modules = await prisma.module.findMany({
+        where: this.visibleWhere(),
         select: { category: true },
         distinct: ['category'],
       });
@@ -311,6 +524,46 @@ export class ModuleService {
       throw new Error('Failed to fetch categories');
     }
   }
+
+  // Content fields to store, with the duration re-estimated when the content changes
+  private async lessonContent(
+    moduleId: string,
+    data: LessonInput,
+    current?: { content: string | null; contentBlocks: Prisma.JsonValue | null }
+  ) {
+    const blocks = data.contentBlocks === undefined || data.contentBlocks === null
+      ? data.contentBlocks
+      : await contentService.prepareBlocks(data.contentBlocks, moduleId);
+
+    const fields: {
+      content?: string | null;
+      contentBlocks?: Prisma.InputJsonArray | typeof Prisma.DbNull;
+      duration?: number | null;
+    } = {};
+
+    if (data.content !== undefined) {
+      fields.content = data.content;
+    }
+
+    if (blocks !== undefined) {
+      fields.contentBlocks = blocks === null ? Prisma.DbNull : (blocks as unknown as Prisma.InputJsonArray);
+    }
+
+    if (data.duration !== undefined) {
+      fields.duration = data.duration;
+    } else if (data.content !== undefined || blocks !== undefined) {
+      fields.duration = contentService.readingMinutes(
+        contentService.blocksOf({
+          content: data.content !== undefined ? data.content : current?.content ?? null,
+          contentBlocks: blocks !== undefined
+            ? (blocks as unknown as Prisma.JsonValue)
+            : current?.contentBlocks ?? null,
+        })
+      );
+    }
+
+    return fields;
+  }
 }
 
 export default new ModuleService();
@@ -302,6 +302,18 @@ class NotificationService {
     });
   }
 
+  /**
+   * Helper: Send level-up notification
+   */
+  async notifyLevelUp(userId: string, level: number): Promise<void> {
+    await this.createNotification({
+      user_id: userId,
+      message: `⭐ Level up! You reached level ${level}!`,
+      type: NotificationType.LEVEL,
+      metadata: { level },
+    });
+  }
+
   /**
    * Helper: Send order notification
    */
@@ -311,6 +323,7 @@ class NotificationService {
       SHIPPED: '📦 Your order has been shipped!',
       DELIVERED: '🎉 Your order has been delivered!',
       CANCELLED: '❌ Your order has been cancelled.',
+      REFUNDED: '💸 Your order has been refunded.',
     };
 
     await this.createNotification({
@@ -0,0 +1,159 @@
+import { OrderStatus, PointsReason, ReservationStatus } from '@prisma/client';
+import prisma from '../config/prisma';
+import couponService from './couponService';
+import pointsService from './pointsService';
+import orderService, { ORDER_TRANSITIONS } from './orderService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+jest.mock('../config/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    order: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+  },
+}));
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('./notificationService', () => ({
+  __esModule: true,
+  default: { notifyOrder: jest.fn() },
+}));
+jest.mock('./emailService', () => ({
+  __esModule: true,
+  default: { sendOrderStatusEmail: jest.fn() },
+}));
+jest.mock('./couponService', () => ({
+  __esModule: true,
+  default: { releaseRedemption: jest.fn() },
+}));
+jest.mock('./pointsService', () => ({
+  __esModule: true,
+  default: { hasEntry: jest.fn(), credit: jest.fn() },
+}));
+jest.mock('./achievementService', () => ({
+  __esModule: true,
+  default: { evaluate: jest.fn() },
+}));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  order: { findUnique: jest.Mock };
+};
+
+const tx = {
+  order: { updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+  orderStatusHistory: { create: jest.fn() },
+  stockReservation: { findMany: jest.fn(), updateMany: jest.fn() },
+  product: { update: jest.fn() },
+};
+
+const order = (status: OrderStatus, pointsSpent = 0) => ({
+  id: 'order-1',
+  userId: 'user-1',
+  status,
+  pointsSpent,
+});
+
+describe('OrderService.transition', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation((run: (client: typeof tx) => unknown) => run(tx));
+    tx.order.updateMany.mockResolvedValue({ count: 1 });
+    tx.stockReservation.findMany.mockResolvedValue([]);
+    (pointsService.hasEntry as jest.Mock).mockResolvedValue(false);
+  });
+
+  it('never leaves a terminal status', () => {
+    expect(ORDER_TRANSITIONS[OrderStatus.REFUNDED]).toEqual([]);
+    expect(orderService.canTransition(OrderStatus.PENDING, OrderStatus.SHIPPED)).toBe(false);
+    expect(orderService.canTransition(OrderStatus.SHIPPED, OrderStatus.CANCELLED)).toBe(false);
+  });
+
+  it('rejects a move the table does not allow', async () => {
+    db.order.findUnique.mockResolvedValue(order(OrderStatus.DELIVERED));
+
+    await expect(orderService.transition('order-1', OrderStatus.SHIPPED)).rejects.toThrow(
+      ValidationError
+    );
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 for an unknown order', async () => {
+    db.order.findUnique.mockResolvedValue(null);
+
+    await expect(orderService.transition('order-1', OrderStatus.PAID)).rejects.toThrow(
+      NotFoundError
+    );
+  });
+
+  it('loses to a concurrent change of the same order', async () => {
+    db.order.findUnique.mockResolvedValue(order(OrderStatus.PENDING));
+    tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(orderService.transition('order-1', OrderStatus.PAID)).rejects.toThrow(
+      ConflictError
+    );
+    expect(tx.orderStatusHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('confirms the reservations and records history when paid', async () => {
+    db.order.findUnique.mockResolvedValue(order(OrderStatus.PENDING));
+
+    await orderService.transition('order-1', OrderStatus.PAID, { changedById: 'admin-1' });
+
+    expect(tx.order.updateMany).toHaveBeenCalledWith({
+      where: { id: 'order-1', status: OrderStatus.PENDING },
+      data: { status: OrderStatus.PAID },
+    });
+    expect(tx.orderStatusHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        fromStatus: OrderStatus.PENDING,
+        toStatus: OrderStatus.PAID,
+        changedById: 'admin-1',
+      }),
+    });
+    expect(tx.stockReservation.updateMany).toHaveBeenCalledWith({
+      where: { orderId: 'order-1', status: ReservationStatus.HELD },
+      data: { status: ReservationStatus.CONFIRMED },
+    });
+  });
+
+  it('restores stock, releases the coupon and refunds points on cancel', async () => {
+    db.order.findUnique.mockResolvedValue(order(OrderStatus.PENDING, 300));
+    tx.stockReservation.findMany.mockResolvedValue([
+      { id: 'reservation-1', productId: 'hoodie', quantity: 2 },
+    ]);
+
+    await orderService.transition('order-1', OrderStatus.CANCELLED);
+
+    expect(tx.product.update).toHaveBeenCalledWith({
+      where: { id: 'hoodie' },
+      data: { stock: { increment: 2 } },
+    });
+    expect(tx.stockReservation.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['reservation-1'] } },
+      data: { status: ReservationStatus.RELEASED },
+    });
+    expect(couponService.releaseRedemption).toHaveBeenCalledWith(tx, 'order-1');
+    expect(pointsService.credit).toHaveBeenCalledWith(
+      'user-1',
+      300,
+      PointsReason.REFUND,
+      { referenceId: 'order-1' },
+      tx
+    );
+  });
+
+  it('refunds points only once', async () => {
+    db.order.findUnique.mockResolvedValue(order(OrderStatus.CANCELLED, 300));
+    (pointsService.hasEntry as jest.Mock).mockResolvedValue(true);
+
+    await orderService.transition('order-1', OrderStatus.REFUNDED);
+
+    expect(pointsService.credit).not.toHaveBeenCalled();
+    expect(tx.product.update).not.toHaveBeenCalled();
+  });
+});
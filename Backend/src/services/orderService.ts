@@ -0,0 +1,232 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { Order, OrderStatus, PointsReason, Prisma, ReservationStatus } from '@prisma/client';
+import notificationService from './notificationService';
+import emailService from './emailService';
+import couponService from './couponService';
+import pointsService from './pointsService';
+import achievementService from './achievementService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+interface TransitionOptions {
+  changedById?: string;
+  note?: string;
+  trackingNumber?: string;
+}
+
+// Allowed moves between order statuses; terminal states map to an empty list
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.PAID, OrderStatus.CANCELLED],
+  [OrderStatus.PAID]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED, OrderStatus.REFUNDED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED, OrderStatus.REFUNDED],
+  [OrderStatus.DELIVERED]: [OrderStatus.REFUNDED],
+  [OrderStatus.CANCELLED]: [OrderStatus.REFUNDED],
+  [OrderStatus.REFUNDED]: [],
+};
+
+export class OrderService {
+  /**
+   * Check whether an order may move from one status to another
+   */
+  canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return ORDER_TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Move an order to a new status, recording history and applying side effects
+   */
+  async transition(orderId: string, to: OrderStatus, options: TransitionOptions = {}) {
+    try {
+      const order = await prisma.order.findUnique({ where: { id: orderId } });
+
+      if (!order) {
+        throw new NotFoundError('Order not found');
+      }
+
+      if (!this.canTransition(order.status, to)) {
+        throw new ValidationError(`Cannot change order status from ${order.status} to ${to}`);
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        // Guard on the status we validated against so concurrent changes cannot both win
+        const { count } = await tx.order.updateMany({
+          where: { id: orderId, status: order.status },
+          data: { status: to },
+        });
+
+        if (count === 0) {
+          throw new ConflictError('Order status was changed concurrently, please retry');
+        }
+
+        await tx.orderStatusHistory.create({
+          data: {
+            orderId,
+            fromStatus: order.status,
+            toStatus: to,
+            changedById: options.changedById,
+            note: options.note,
+            trackingNumber: options.trackingNumber,
+          },
+        });
+
+        if (to === OrderStatus.PAID) {
+          await tx.stockReservation.updateMany({
+            where: { orderId, status: ReservationStatus.HELD },
+            data: { status: ReservationStatus.CONFIRMED },
+          });
+        }
+
+        if (to === OrderStatus.CANCELLED) {
+          await this.restoreStock(tx, orderId);
+          await couponService.releaseRedemption(tx, orderId);
+        }
+
+        if (to === OrderStatus.CANCELLED || to === OrderStatus.REFUNDED) {
+          await this.refundPoints(tx, order);
+        }
+
+        return tx.order.findUniqueOrThrow({ where: { id: orderId } });
+      });
+
+      logger.info(`Order ${orderId} moved from ${order.status} to ${to} by ${options.changedById || 'system'}`);
+
+      await this.notifyCustomer(order.userId, orderId, to, options.trackingNumber);
+
+      if (to === OrderStatus.PAID) {
+        await achievementService.evaluate(order.userId, 'order_paid');
+      }
+
+      return updated;
+    } catch (error) {
+      logger.error('Error changing order status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel unpaid orders whose stock reservation window has passed
+   */
+  async expireUnpaidOrders(): Promise<number> {
+    try {
+      const expired = await prisma.stockReservation.findMany({
+        where: {
+          status: ReservationStatus.HELD,
+          expiresAt: { lte: new Date() },
+          order: { status: OrderStatus.PENDING },
+        },
+        select: { orderId: true },
+        distinct: ['orderId'],
+      });
+
+      let cancelled = 0;
+      for (const { orderId } of expired) {
+        try {
+          await this.transition(orderId, OrderStatus.CANCELLED, {
+            note: 'Stock reservation expired before payment',
+          });
+          cancelled++;
+        } catch (error) {
+          // Typically the order was paid in the meantime; the next run will not pick it up again
+          logger.warn(`Could not expire order ${orderId}:`, error);
+        }
+      }
+
+      return cancelled;
+    } catch (error) {
+      logger.error('Error expiring unpaid orders:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the status history of an order, oldest first
+   */
+  async getStatusHistory(orderId: string) {
+    try {
+      return await prisma.orderStatusHistory.findMany({
+        where: { orderId },
+        include: {
+          changedBy: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Error fetching order status history:', error);
+      throw new Error('Failed to fetch order status history');
+    }
+  }
+
+  /**
+   * Put every unit held or sold for an order back into inventory
+   */
+  private async restoreStock(tx: Prisma.TransactionClient, orderId: string) {
+    const reservations = await tx.stockReservation.findMany({
+      where: {
+        orderId,
+        status: { in: [ReservationStatus.HELD, ReservationStatus.CONFIRMED] },
+      },
+    });
+
+    for (const reservation of reservations) {
+      await tx.product.update({
+        where: { id: reservation.productId },
+        data: { stock: { increment: reservation.quantity } },
+      });
+    }
+
+    await tx.stockReservation.updateMany({
+      where: { id: { in: reservations.map((reservation) => reservation.id) } },
+      data: { status: ReservationStatus.RELEASED },
+    });
+  }
+
+  /**
+   * Give back the points spent on an order, at most once
+   */
+  private async refundPoints(tx: Prisma.TransactionClient, order: Order) {
+    if (order.pointsSpent === 0 || (await pointsService.hasEntry(order.id, PointsReason.REFUND, tx))) {
+      return;
+    }
+
+    await pointsService.credit(
+      order.userId,
+      order.pointsSpent,
+      PointsReason.REFUND,
+      { referenceId: order.id },
+      tx
+    );
+  }
+
+  /**
+   * Send the in-app notification and email for a status change.
+   * Delivery problems are logged but never undo the transition.
+   */
+  private async notifyCustomer(
+    userId: string,
+    orderId: string,
+    status: OrderStatus,
+    trackingNumber?: string
+  ) {
+    try {
+      await notificationService.notifyOrder(userId, orderId, status);
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, email: true, username: true },
+      });
+
+      if (user) {
+        await emailService.sendOrderStatusEmail(user, orderId, status, trackingNumber);
+      }
+    } catch (error) {
+      logger.error('Error notifying customer about order status:', error);
+    }
+  }
+}
+
+export default new OrderService();
@@ -0,0 +1,192 @@
+import { OrderStatus, PaymentStatus, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import orderService from './orderService';
+import { PaymentService } from './paymentService';
+import { MockPaymentProvider } from './mockPaymentProvider';
+import { AuthenticationError, ConflictError, ServiceUnavailableError } from '../utils/errors';
+
+jest.mock('../config/prisma', () => ({
+  __esModule: true,
+  default: {
+    payment: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    refund: { create: jest.fn() },
+  },
+}));
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('./orderService', () => ({ __esModule: true, default: { transition: jest.fn() } }));
+
+const db = prisma as unknown as {
+  payment: Record<
+    'findFirst' | 'findUnique' | 'findUniqueOrThrow' | 'update' | 'updateMany',
+    jest.Mock
+  >;
+  refund: { create: jest.Mock };
+};
+const transition = orderService.transition as jest.Mock;
+
+const payment = {
+  id: 'payment-1',
+  orderId: 'order-1',
+  providerRef: 'mock_pi_1',
+  amount: new Prisma.Decimal('50.00'),
+  refundedAmount: new Prisma.Decimal('10.00'),
+  status: PaymentStatus.PARTIALLY_REFUNDED,
+};
+
+const env = { ...process.env };
+
+describe('PaymentService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+    process.env = { ...env, PAYMENT_PROVIDER: 'mock', PAYMENT_WEBHOOK_SECRET: 'secret' };
+    db.payment.findFirst.mockResolvedValue(payment);
+    db.payment.updateMany.mockResolvedValue({ count: 1 });
+    db.payment.findUniqueOrThrow.mockResolvedValue(payment);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  describe('provider', () => {
+    it('answers 503 for the mock gateway in production', async () => {
+      process.env.NODE_ENV = 'production';
+
+      await expect(new PaymentService().refundOrder('order-1')).rejects.toThrow(
+        ServiceUnavailableError
+      );
+      expect(db.payment.update).toHaveBeenCalled();
+    });
+
+    it('answers 503 for an unknown gateway', async () => {
+      process.env.PAYMENT_PROVIDER = 'unknown';
+
+      await expect(
+        new PaymentService().handleWebhook(Buffer.from('{}'), 'signature')
+      ).rejects.toThrow(ServiceUnavailableError);
+    });
+  });
+
+  describe('refundOrder', () => {
+    it('refunds the remaining amount and marks the order refunded', async () => {
+      await new PaymentService().refundOrder('order-1', { issuedById: 'admin-1' });
+
+      expect(db.payment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payment-1', status: payment.status, refundedAmount: payment.refundedAmount },
+        data: { refundedAmount: { increment: 40 }, status: PaymentStatus.REFUNDED },
+      });
+      expect(db.refund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ paymentId: 'payment-1', amount: 40 }),
+      });
+      expect(transition).toHaveBeenCalledWith('order-1', OrderStatus.REFUNDED, {
+        changedById: 'admin-1',
+        note: undefined,
+      });
+    });
+
+    it('leaves the order alone on a partial refund', async () => {
+      await new PaymentService().refundOrder('order-1', { amount: 15 });
+
+      expect(db.payment.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { refundedAmount: { increment: 15 }, status: PaymentStatus.PARTIALLY_REFUNDED },
+        })
+      );
+      expect(transition).not.toHaveBeenCalled();
+    });
+
+    it('refuses a refund racing another one', async () => {
+      db.payment.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(new PaymentService().refundOrder('order-1')).rejects.toThrow(ConflictError);
+      expect(db.refund.create).not.toHaveBeenCalled();
+    });
+
+    it('releases the reserved amount when the gateway fails', async () => {
+      jest
+        .spyOn(MockPaymentProvider.prototype, 'refund')
+        .mockRejectedValue(new Error('Gateway down'));
+
+      await expect(new PaymentService().refundOrder('order-1')).rejects.toThrow('Gateway down');
+      expect(db.payment.update).toHaveBeenCalledWith({
+        where: { id: 'payment-1' },
+        data: { refundedAmount: { decrement: 40 }, status: PaymentStatus.PARTIALLY_REFUNDED },
+      });
+      expect(db.refund.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleWebhook', () => {
+    const body = Buffer.from(JSON.stringify({ type: 'payment.succeeded', intentId: 'mock_pi_1' }));
+    const signature = new MockPaymentProvider('secret').sign(body);
+
+    beforeEach(() => {
+      db.payment.findUnique.mockResolvedValue({
+        ...payment,
+        status: PaymentStatus.REQUIRES_CONFIRMATION,
+      });
+    });
+
+    it('rejects a bad signature', async () => {
+      await expect(new PaymentService().handleWebhook(body, 'forged')).rejects.toThrow(
+        AuthenticationError
+      );
+      expect(db.payment.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('rejects every webhook while no secret is set', async () => {
+      delete process.env.PAYMENT_WEBHOOK_SECRET;
+
+      await expect(new PaymentService().handleWebhook(body, signature)).rejects.toThrow(
+        AuthenticationError
+      );
+    });
+
+    it('marks the payment succeeded and the order paid', async () => {
+      await new PaymentService().handleWebhook(body, signature);
+
+      expect(db.payment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'payment-1', status: PaymentStatus.REQUIRES_CONFIRMATION },
+        data: { status: PaymentStatus.SUCCEEDED },
+      });
+      expect(transition).toHaveBeenCalledWith('order-1', OrderStatus.PAID, expect.any(Object));
+    });
+
+    it('ignores a repeated delivery', async () => {
+      db.payment.updateMany.mockResolvedValue({ count: 0 });
+
+      await new PaymentService().handleWebhook(body, signature);
+
+      expect(transition).not.toHaveBeenCalled();
+    });
+
+    it('refunds a payment that arrives after the order was cancelled', async () => {
+      transition.mockRejectedValueOnce(new ConflictError('Order is cancelled'));
+      db.payment.findFirst.mockResolvedValue({
+        ...payment,
+        refundedAmount: new Prisma.Decimal(0),
+        status: PaymentStatus.SUCCEEDED,
+      });
+
+      await new PaymentService().handleWebhook(body, signature);
+
+      expect(db.refund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 50 }),
+      });
+      expect(transition).toHaveBeenLastCalledWith('order-1', OrderStatus.REFUNDED, {
+        changedById: undefined,
+        note: 'Order no longer pending when payment succeeded',
+      });
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { OrderStatus, PaymentStatus } from '@prisma/client';
+import { PaymentProvider, PaymentWebhookEvent, RefundResult } from '../types/payment';
+import { MockPaymentProvider } from './mockPaymentProvider';
+import orderService from './orderService';
+import {
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../utils/errors';
+
+const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || 'EUR';
+
+// Register real gateways here; PAYMENT_PROVIDER selects the active one
+const providers: Record<string, (webhookSecret?: string) => PaymentProvider> = {
+  mock: (webhookSecret) => new MockPaymentProvider(webhookSecret),
+};
+
+const toCents = (value: unknown): number => Math.round(Number(value) * 100);
+
+export class PaymentService {
+  private provider: PaymentProvider | null = null;
+
+  /**
+   * Start paying for a pending order; reuses an open intent if there is one
+   */
+  async createPaymentIntent(orderId: string, userId: string) {
+    try {
+      const order = await prisma.order.findFirst({
+        where: { id: orderId, userId },
+        include: {
+          payments: {
+            where: { status: PaymentStatus.REQUIRES_CONFIRMATION },
+          },
+        },
+      });
+
+      if (!order) {
+        throw new NotFoundError('Order not found');
+      }
+
+      if (order.status !== OrderStatus.PENDING) {
+        throw new ConflictError(`Order is ${order.status.toLowerCase()} and cannot be paid`);
+      }
+
+      if (order.payments.length > 0) {
+        return order.payments[0];
+      }
+
+      const intent = await this.getProvider().createIntent({
+        orderId,
+        amount: Number(order.totalPrice),
+        currency: PAYMENT_CURRENCY,
+      });
+
+      const payment = await prisma.payment.create({
+        data: {
+          orderId,
+          provider: this.getProvider().name,
+          providerRef: intent.id,
+          clientSecret: intent.clientSecret,
+          amount: order.totalPrice,
+          currency: intent.currency,
+        },
+      });
+
+      logger.info(`Payment intent ${intent.id} created for order ${orderId}`);
+
+      return payment;
+    } catch (error) {
+      logger.error('Error creating payment intent:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm the open intent of an order with the given payment method
+   */
+  async confirmPayment(orderId: string, userId: string, paymentMethod: string) {
+    try {
+      const payment = await prisma.payment.findFirst({
+        where: {
+          orderId,
+          status: PaymentStatus.REQUIRES_CONFIRMATION,
+          order: { userId },
+        },
+      });
+
+      if (!payment) {
+        throw new NotFoundError('No open payment for this order');
+      }
+
+      const confirmation = await this.getProvider().confirm(payment.providerRef, paymentMethod);
+
+      await this.applyEvent({
+        type: confirmation.status === 'succeeded' ? 'payment.succeeded' : 'payment.failed',
+        intentId: payment.providerRef,
+        failureReason: confirmation.failureReason,
+      });
+
+      return prisma.payment.findUnique({
+        where: { id: payment.id },
+        include: { order: true },
+      });
+    } catch (error) {
+      logger.error('Error confirming payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify and apply a webhook delivered by the payment provider
+   */
+  async handleWebhook(rawBody: Buffer | undefined, signature: string | undefined) {
+    const event = rawBody && signature ? this.getProvider().verifyWebhook(rawBody, signature) : null;
+
+    if (!event) {
+      throw new AuthenticationError('Invalid webhook signature');
+    }
+
+    await this.applyEvent(event);
+
+    return event;
+  }
+
+  /**
+   * Refund a paid order, fully or partially
+   */
+  async refundOrder(
+    orderId: string,
+    options: { amount?: number; reason?: string; issuedById?: string } = {}
+  ) {
+    try {
+      const payment = await prisma.payment.findFirst({
+        where: {
+          orderId,
+          status: { in: [PaymentStatus.SUCCEEDED, PaymentStatus.PARTIALLY_REFUNDED] },
+        },
+      });
+
+      if (!payment) {
+        throw new NotFoundError('No refundable payment for this order');
+      }
+
+      const remainingCents = toCents(payment.amount) - toCents(payment.refundedAmount);
+      const amountCents = options.amount !== undefined ? toCents(options.amount) : remainingCents;
+
+      if (amountCents <= 0 || amountCents > remainingCents) {
+        throw new ValidationError(`Refund amount must be between 0.01 and ${remainingCents / 100}`);
+      }
+
+      const fullyRefunded = amountCents === remainingCents;
+
+      // Reserve the amount before calling the provider; the update only applies if no
+      // other refund changed the refunded amount since it was read
+      const { count } = await prisma.payment.updateMany({
+        where: { id: payment.id, status: payment.status, refundedAmount: payment.refundedAmount },
+        data: {
+          refundedAmount: { increment: amountCents / 100 },
+          status: fullyRefunded ? PaymentStatus.REFUNDED : PaymentStatus.PARTIALLY_REFUNDED,
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Another refund is in progress for this order; try again');
+      }
+
+      let result: RefundResult;
+      try {
+        result = await this.getProvider().refund(payment.providerRef, amountCents / 100);
+      } catch (error) {
+        await prisma.payment.update({
+          where: { id: payment.id },
+          data: { refundedAmount: { decrement: amountCents / 100 }, status: payment.status },
+        });
+        throw error;
+      }
+
+      await prisma.refund.create({
+        data: {
+          paymentId: payment.id,
+          providerRef: result.id,
+          amount: amountCents / 100,
+          reason: options.reason,
+          issuedById: options.issuedById,
+        },
+      });
+
+      const updated = await prisma.payment.findUniqueOrThrow({
+        where: { id: payment.id },
+        include: { refunds: true },
+      });
+
+      if (fullyRefunded) {
+        await orderService.transition(orderId, OrderStatus.REFUNDED, {
+          changedById: options.issuedById,
+          note: options.reason,
+        });
+      }
+
+      logger.info(`Refunded ${amountCents / 100} on order ${orderId} (${result.id})`);
+
+      return updated;
+    } catch (error) {
+      logger.error('Error refunding order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a provider event to the matching payment and order.
+   * Safe to call more than once for the same event.
+   */
+  private async applyEvent(event: PaymentWebhookEvent) {
+    const payment = await prisma.payment.findUnique({
+      where: { providerRef: event.intentId },
+      include: { order: true },
+    });
+
+    if (!payment) {
+      logger.warn(`Payment event for unknown intent ${event.intentId}`);
+      return;
+    }
+
+    if (event.type === 'payment.succeeded') {
+      await this.markSucceeded(payment.id, payment.orderId);
+    } else if (event.type === 'payment.failed') {
+      await this.markFailed(payment.id, payment.orderId, event.failureReason);
+    }
+  }
+
+  private async markSucceeded(paymentId: string, orderId: string) {
+    const { count } = await prisma.payment.updateMany({
+      where: { id: paymentId, status: PaymentStatus.REQUIRES_CONFIRMATION },
+      data: { status: PaymentStatus.SUCCEEDED },
+    });
+
+    // Already processed (duplicate webhook delivery)
+    if (count === 0) {
+      return;
+    }
+
+    try {
+      await orderService.transition(orderId, OrderStatus.PAID, { note: `Payment ${paymentId} succeeded` });
+    } catch (error) {
+      // The reservation expired and the order was cancelled before the money arrived
+      logger.warn(`Payment ${paymentId} succeeded for non-pending order ${orderId}; refunding`, error);
+      await this.refundOrder(orderId, { reason: 'Order no longer pending when payment succeeded' });
+    }
+  }
+
+  private async markFailed(paymentId: string, orderId: string, reason?: string) {
+    const { count } = await prisma.payment.updateMany({
+      where: { id: paymentId, status: PaymentStatus.REQUIRES_CONFIRMATION },
+      data: { status: PaymentStatus.FAILED },
+    });
+
+    if (count === 0) {
+      return;
+    }
+
+    await orderService.transition(orderId, OrderStatus.CANCELLED, {
+      note: `Payment failed: ${reason || 'unknown reason'}`,
+    });
+
+    logger.info(`Payment ${paymentId} for order ${orderId} failed: ${reason || 'unknown reason'}`);
+  }
+
+  /**
+   * Gateway selected by PAYMENT_PROVIDER, resolved on first use so a misconfigured
+   * gateway only takes payments down. Production never runs the mock gateway, which
+   * confirms any payment, nor any gateway without a webhook secret.
+   */
+  private getProvider(): PaymentProvider {
+    if (this.provider) {
+      return this.provider;
+    }
+
+    const name = process.env.PAYMENT_PROVIDER || 'mock';
+    const webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET || undefined;
+    const factory = providers[name];
+
+    if (!factory) {
+      logger.error(`Unknown payment provider: ${name}`);
+      throw new ServiceUnavailableError('Payments are not available');
+    }
+
+    if (process.env.NODE_ENV === 'production' && (name === 'mock' || !webhookSecret)) {
+      logger.error('Payments need a real provider and PAYMENT_WEBHOOK_SECRET in production');
+      throw new ServiceUnavailableError('Payments are not available');
+    }
+
+    this.provider = factory(webhookSecret);
+    return this.provider;
+  }
+}
+
+export default new PaymentService();
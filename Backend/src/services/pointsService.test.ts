@@ -0,0 +1,78 @@
+import { PointsReason } from '@prisma/client';
+import prisma from '../config/prisma';
+import pointsService from './pointsService';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('../config/prisma', () => ({ __esModule: true, default: { $transaction: jest.fn() } }));
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn() },
+}));
+
+// One user row whose conditional update behaves like the database's
+const user = { totalPoints: 0, experience: 0 };
+
+const tx = {
+  user: {
+    updateMany: jest.fn(async ({ where, data }) => {
+      if (where.totalPoints && user.totalPoints < where.totalPoints.gte) {
+        return { count: 0 };
+      }
+      user.totalPoints += data.totalPoints.increment;
+      user.experience += data.experience?.increment ?? 0;
+      return { count: 1 };
+    }),
+    findUniqueOrThrow: jest.fn(async () => ({ totalPoints: user.totalPoints })),
+  },
+  pointsTransaction: {
+    create: jest.fn(async ({ data }) => data),
+  },
+};
+
+describe('PointsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(user, { totalPoints: 100, experience: 100 });
+    (prisma.$transaction as jest.Mock).mockImplementation((run: (client: typeof tx) => unknown) =>
+      run(tx)
+    );
+  });
+
+  describe('debit', () => {
+    it('records the balance after the entry', async () => {
+      const entry = await pointsService.debit('user-1', 30, PointsReason.PURCHASE);
+
+      expect(entry).toMatchObject({ amount: -30, balanceAfter: 70 });
+      expect(user).toEqual({ totalPoints: 70, experience: 100 });
+    });
+
+    it('lets only one of two concurrent debits overdrawing the balance through', async () => {
+      const results = await Promise.allSettled([
+        pointsService.debit('user-1', 60, PointsReason.PURCHASE),
+        pointsService.debit('user-1', 60, PointsReason.PURCHASE),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+        reason: new ValidationError('Not enough points'),
+      });
+      expect(user.totalPoints).toBe(40);
+      expect(tx.pointsTransaction.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects amounts that are not positive', async () => {
+      await expect(pointsService.debit('user-1', 0, PointsReason.PURCHASE)).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('credit', () => {
+    it('only counts earned points as experience', async () => {
+      await pointsService.credit('user-1', 20, PointsReason.QUIZ_PASSED);
+      await pointsService.credit('user-1', 50, PointsReason.REFUND);
+
+      expect(user).toEqual({ totalPoints: 170, experience: 120 });
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { PointsReason, PointsTransaction, Prisma } from '@prisma/client';
+import { ValidationError } from '../utils/errors';
+
+type Db = Prisma.TransactionClient;
+
+// Reasons that also count towards lifetime experience (spending and refunds do not)
+export const EXPERIENCE_REASONS: PointsReason[] = [
+  PointsReason.MODULE_COMPLETION,
+  PointsReason.QUIZ_PASSED,
+  PointsReason.ACHIEVEMENT,
+  PointsReason.ADMIN_ADJUSTMENT,
+];
+
+interface PointsEntryOptions {
+  referenceId?: string;
+  note?: string;
+  createdById?: string;
+}
+
+/**
+ * Points Service
+ * The only place allowed to change User.totalPoints and User.experience; every change is written to the ledger
+ */
+export class PointsService {
+  /**
+   * Add points to a user's balance
+   */
+  async credit(
+    userId: string,
+    amount: number,
+    reason: PointsReason,
+    options: PointsEntryOptions = {},
+    db?: Db
+  ) {
+    if (amount <= 0) {
+      throw new ValidationError('Credit amount must be positive');
+    }
+
+    return this.record(userId, amount, reason, options, db);
+  }
+
+  /**
+   * Add points unless the user already has an entry for this reason and reference;
+   * returns null when skipped
+   */
+  async creditOnce(
+    userId: string,
+    amount: number,
+    reason: PointsReason,
+    options: PointsEntryOptions & { referenceId: string }
+  ) {
+    return prisma.$transaction(async (tx) => {
+      // Lock the user's row so concurrent credits for the same reference run one at a time
+      await tx.$executeRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+
+      const existing = await tx.pointsTransaction.count({
+        where: { userId, reason, referenceId: options.referenceId },
+      });
+
+      if (existing > 0) {
+        return null;
+      }
+
+      return this.credit(userId, amount, reason, options, tx);
+    });
+  }
+
+  /**
+   * Take points from a user's balance; fails when the balance is too low
+   */
+  async debit(
+    userId: string,
+    amount: number,
+    reason: PointsReason,
+    options: PointsEntryOptions = {},
+    db?: Db
+  ) {
+    if (amount <= 0) {
+      throw new ValidationError('Debit amount must be positive');
+    }
+
+    return this.record(userId, -amount, reason, options, db);
+  }
+
+  /**
+   * Manual correction by an admin (positive or negative)
+   */
+  async adjust(userId: string, amount: number, adminId: string, note?: string) {
+    if (amount === 0) {
+      throw new ValidationError('Adjustment amount must not be zero');
+    }
+
+    const entry = await this.record(userId, amount, PointsReason.ADMIN_ADJUSTMENT, {
+      createdById: adminId,
+      note,
+    });
+
+    logger.info(`Admin ${adminId} adjusted points of user ${userId} by ${amount}`);
+
+    return entry;
+  }
+
+  /**
+   * Check whether a ledger entry already exists for a reference (e.g. an order refund)
+   */
+  async hasEntry(referenceId: string, reason: PointsReason, db: Db = prisma) {
+    const count = await db.pointsTransaction.count({ where: { referenceId, reason } });
+    return count > 0;
+  }
+
+  /**
+   * Get a page of a user's ledger, newest first
+   */
+  async getLedger(userId: string, page: number = 1, limit: number = 20) {
+    try {
+      const [entries, total, user] = await Promise.all([
+        prisma.pointsTransaction.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.pointsTransaction.count({ where: { userId } }),
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { totalPoints: true },
+        }),
+      ]);
+
+      return {
+        balance: user?.totalPoints ?? 0,
+        entries,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      logger.error('Error fetching points ledger:', error);
+      throw new Error('Failed to fetch points ledger');
+    }
+  }
+
+  /**
+   * Apply a signed change and append the ledger row, inside the caller's transaction if given
+   */
+  private async record(
+    userId: string,
+    amount: number,
+    reason: PointsReason,
+    options: PointsEntryOptions,
+    db?: Db
+  ): Promise<PointsTransaction> {
+    if (!db) {
+      return prisma.$transaction((tx) => this.record(userId, amount, reason, options, tx));
+    }
+
+    const data: Prisma.UserUpdateManyMutationInput = { totalPoints: { increment: amount } };
+    if (EXPERIENCE_REASONS.includes(reason)) {
+      data.experience = { increment: amount };
+    }
+
+    // Conditional update so concurrent debits can never overdraw the balance
+    const { count } = await db.user.updateMany({
+      where: amount < 0 ? { id: userId, totalPoints: { gte: -amount } } : { id: userId },
+      data,
+    });
+
+    if (count === 0) {
+      throw new ValidationError(amount < 0 ? 'Not enough points' : 'User not found');
+    }
+
+    const { totalPoints } = await db.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { totalPoints: true },
+    });
+
+    return db.pointsTransaction.create({
+      data: {
+        userId,
+        amount,
+        balanceAfter: totalPoints,
+        reason,
+        referenceId: options.referenceId,
+        note: options.note,
+        createdById: options.createdById,
+      },
+    });
+  }
+}
+
+export default new PointsService();
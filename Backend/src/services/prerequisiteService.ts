@@ -0,0 +1,345 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import {
+  ModuleStatus,
+  PrerequisiteType,
+  Prisma,
+  QuizAttemptStatus,
+  QuizScoringPolicy,
+} from '@prisma/client';
+import quizGradingService from './quizGradingService';
+import { AuthorizationError, NotFoundError, ValidationError } from '../utils/errors';
+
+interface PrerequisiteInput {
+  type: PrerequisiteType;
+  moduleId?: string;
+  quizId?: string;
+  minLevel?: number;
+}
+
+export interface Requirement {
+  id: string;
+  type: PrerequisiteType;
+  requiredModule: { id: string; title: string } | null;
+  requiredQuiz: { id: string; title: string } | null;
+  minLevel: number | null;
+  description: string;
+}
+
+export interface LockState {
+  locked: boolean;
+  unmetRequirements: Requirement[];
+}
+
+const requirementInclude = {
+  requiredModule: { select: { id: true, title: true } },
+  requiredQuiz: {
+    select: { id: true, title: true, moduleId: true, passingScore: true, scoringPolicy: true },
+  },
+} satisfies Prisma.ModulePrerequisiteInclude;
+
+type PrerequisiteWithRequirements = Prisma.ModulePrerequisiteGetPayload<{
+  include: typeof requirementInclude;
+}>;
+
+/**
+ * Prerequisite Service
+ * Requirements (completed module, passed quiz, minimum level) that unlock a module
+ */
+export class PrerequisiteService {
+  /**
+   * Prerequisites of a module
+   */
+  async getPrerequisites(moduleId: string): Promise<Requirement[]> {
+    const prerequisites = await prisma.modulePrerequisite.findMany({
+      where: { moduleId },
+      include: requirementInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return prerequisites.map((prerequisite) => this.toRequirement(prerequisite));
+  }
+
+  /**
+   * Replace the prerequisites of a module; refused when they would form a cycle
+   */
+  async setPrerequisites(moduleId: string, raw: unknown) {
+    const module = await prisma.module.findUnique({ where: { id: moduleId }, select: { id: true } });
+
+    if (!module) {
+      throw new NotFoundError('Module not found');
+    }
+
+    const inputs = this.validateInputs(raw);
+    const dependencies = new Set<string>();
+
+    for (const [index, input] of inputs.entries()) {
+      if (input.type === PrerequisiteType.MODULE_COMPLETED) {
+        const required = await prisma.module.findUnique({ where: { id: input.moduleId! } });
+        if (!required) {
+          throw new NotFoundError(`Prerequisite ${index + 1}: module not found`);
+        }
+        dependencies.add(required.id);
+      }
+
+      if (input.type === PrerequisiteType.QUIZ_PASSED) {
+        const quiz = await prisma.quiz.findUnique({ where: { id: input.quizId! } });
+        if (!quiz) {
+          throw new NotFoundError(`Prerequisite ${index + 1}: quiz not found`);
+        }
+        dependencies.add(quiz.moduleId);
+      }
+    }
+
+    await this.assertAcyclic(moduleId, dependencies);
+
+    await prisma.$transaction([
+      prisma.modulePrerequisite.deleteMany({ where: { moduleId } }),
+      prisma.modulePrerequisite.createMany({
+        data: inputs.map((input) => ({
+          moduleId,
+          type: input.type,
+          requiredModuleId: input.type === PrerequisiteType.MODULE_COMPLETED ? input.moduleId : null,
+          requiredQuizId: input.type === PrerequisiteType.QUIZ_PASSED ? input.quizId : null,
+          minLevel: input.type === PrerequisiteType.MIN_LEVEL ? input.minLevel : null,
+        })),
+      }),
+    ]);
+
+    logger.info(`Prerequisites of module ${moduleId} set (${inputs.length})`);
+
+    return this.getPrerequisites(moduleId);
+  }
+
+  /**
+   * Lock state per module. Without a user every requirement counts as unmet; modules
+   * the user already started stay unlocked.
+   */
+  async getLockStates(userId: string | undefined, moduleIds: string[]): Promise<Map<string, LockState>> {
+    const prerequisites = await prisma.modulePrerequisite.findMany({
+      where: { moduleId: { in: moduleIds } },
+      include: requirementInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const states = new Map<string, LockState>(
+      moduleIds.map((id) => [id, { locked: false, unmetRequirements: [] }])
+    );
+
+    if (prerequisites.length === 0) {
+      return states;
+    }
+
+    const met = userId
+      ? await this.metRequirementIds(userId, moduleIds, prerequisites)
+      : { ids: new Set<string>(), startedModuleIds: new Set<string>() };
+
+    for (const prerequisite of prerequisites) {
+      const state = states.get(prerequisite.moduleId);
+      if (!state || met.startedModuleIds.has(prerequisite.moduleId) || met.ids.has(prerequisite.id)) {
+        continue;
+      }
+      state.locked = true;
+      state.unmetRequirements.push(this.toRequirement(prerequisite));
+    }
+
+    return states;
+  }
+
+  /**
+   * Throw when the module is locked for the user
+   */
+  async assertUnlocked(userId: string, moduleId: string) {
+    const state = (await this.getLockStates(userId, [moduleId])).get(moduleId);
+
+    if (state?.locked) {
+      throw new AuthorizationError(
+        `Module is locked: ${state.unmetRequirements.map((requirement) => requirement.description).join('; ')}`
+      );
+    }
+  }
+
+  /**
+   * Ids of the given quizzes whose counted score (per their policy) reaches the pass mark
+   */
+  async passedQuizIds(
+    userId: string,
+    quizzes: { id: string; passingScore: number; scoringPolicy: QuizScoringPolicy }[]
+  ) {
+    const results = await prisma.quizResult.findMany({
+      where: {
+        userId,
+        quizId: { in: quizzes.map((quiz) => quiz.id) },
+        status: { not: QuizAttemptStatus.IN_PROGRESS },
+      },
+      select: { quizId: true, score: true },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    return new Set(
+      quizzes
+        .filter((quiz) => {
+          const counted = quizGradingService.countedScore(
+            results.filter((result) => result.quizId === quiz.id).map((result) => result.score),
+            quiz.scoringPolicy
+          );
+          return counted !== null && counted >= quiz.passingScore;
+        })
+        .map((quiz) => quiz.id)
+    );
+  }
+
+  private validateInputs(raw: unknown): PrerequisiteInput[] {
+    if (!Array.isArray(raw)) {
+      throw new ValidationError('Prerequisites must be an array');
+    }
+
+    const inputs = raw.map((input, index): PrerequisiteInput => {
+      const label = `Prerequisite ${index + 1}`;
+
+      switch (input?.type) {
+        case PrerequisiteType.MODULE_COMPLETED:
+          if (typeof input.moduleId !== 'string') {
+            throw new ValidationError(`${label}: moduleId is required`);
+          }
+          return { type: input.type, moduleId: input.moduleId };
+        case PrerequisiteType.QUIZ_PASSED:
+          if (typeof input.quizId !== 'string') {
+            throw new ValidationError(`${label}: quizId is required`);
+          }
+          return { type: input.type, quizId: input.quizId };
+        case PrerequisiteType.MIN_LEVEL:
+          if (!Number.isInteger(input.minLevel) || input.minLevel < 1) {
+            throw new ValidationError(`${label}: minLevel must be a positive integer`);
+          }
+          return { type: input.type, minLevel: input.minLevel };
+        default:
+          throw new ValidationError(
+            `${label}: type must be one of ${Object.values(PrerequisiteType).join(', ')}`
+          );
+      }
+    });
+
+    const keys = inputs.map((input) => `${input.type}:${input.moduleId ?? input.quizId ?? ''}`);
+    if (new Set(keys).size !== keys.length) {
+      throw new ValidationError('Duplicate prerequisites');
+    }
+
+    return inputs;
+  }
+
+  // Depth-first search through the module dependency graph with the new edges in place
+  private async assertAcyclic(moduleId: string, dependencies: Set<string>) {
+    const existing = await prisma.modulePrerequisite.findMany({
+      where: { moduleId: { not: moduleId }, type: { not: PrerequisiteType.MIN_LEVEL } },
+      select: { moduleId: true, requiredModuleId: true, requiredQuiz: { select: { moduleId: true } } },
+    });
+
+    const graph = new Map<string, Set<string>>([[moduleId, dependencies]]);
+    for (const edge of existing) {
+      const target = edge.requiredModuleId ?? edge.requiredQuiz?.moduleId;
+      if (target) {
+        graph.set(edge.moduleId, (graph.get(edge.moduleId) ?? new Set()).add(target));
+      }
+    }
+
+    const visited = new Set<string>();
+    const findPath = (current: string, path: string[]): string[] | null => {
+      for (const next of graph.get(current) ?? []) {
+        if (next === moduleId) {
+          return [...path, next];
+        }
+        if (!visited.has(next)) {
+          visited.add(next);
+          const found = findPath(next, [...path, next]);
+          if (found) {
+            return found;
+          }
+        }
+      }
+      return null;
+    };
+
+    const cycle = findPath(moduleId, [moduleId]);
+
+    if (cycle) {
+      const modules = await prisma.module.findMany({
+        where: { id: { in: cycle } },
+        select: { id: true, title: true },
+      });
+      const titles = new Map(modules.map((module) => [module.id, module.title]));
+      throw new ValidationError(
+        `Prerequisites would create a cycle: ${cycle.map((id) => titles.get(id) ?? id).join(' -> ')}`
+      );
+    }
+  }
+
+  private async metRequirementIds(
+    userId: string,
+    moduleIds: string[],
+    prerequisites: PrerequisiteWithRequirements[]
+  ) {
+    const requiredModuleIds = prerequisites.flatMap((prerequisite) =>
+      prerequisite.requiredModuleId ? [prerequisite.requiredModuleId] : []
+    );
+    const quizzes = prerequisites.flatMap((prerequisite) =>
+      prerequisite.requiredQuiz ? [prerequisite.requiredQuiz] : []
+    );
+
+    const [user, progress, passedQuizIds] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { level: true } }),
+      prisma.userProgress.findMany({
+        where: { userId, moduleId: { in: [...moduleIds, ...requiredModuleIds] } },
+        select: { moduleId: true, status: true },
+      }),
+      this.passedQuizIds(userId, quizzes),
+    ]);
+
+    const completed = new Set(
+      progress.filter((entry) => entry.status === ModuleStatus.COMPLETED).map((entry) => entry.moduleId)
+    );
+
+    const ids = new Set(
+      prerequisites
+        .filter((prerequisite) => {
+          switch (prerequisite.type) {
+            case PrerequisiteType.MODULE_COMPLETED:
+              return completed.has(prerequisite.requiredModuleId!);
+            case PrerequisiteType.QUIZ_PASSED:
+              return passedQuizIds.has(prerequisite.requiredQuizId!);
+            case PrerequisiteType.MIN_LEVEL:
+              return (user?.level ?? 1) >= (prerequisite.minLevel ?? 0);
+          }
+        })
+        .map((prerequisite) => prerequisite.id)
+    );
+
+    // Modules started before their prerequisites were added are not taken away
+    const startedModuleIds = new Set(
+      progress.filter((entry) => moduleIds.includes(entry.moduleId)).map((entry) => entry.moduleId)
+    );
+
+    return { ids, startedModuleIds };
+  }
+
+  private toRequirement(prerequisite: PrerequisiteWithRequirements): Requirement {
+    const { requiredModule, requiredQuiz } = prerequisite;
+
+    const description = {
+      [PrerequisiteType.MODULE_COMPLETED]: `complete module "${requiredModule?.title}"`,
+      [PrerequisiteType.QUIZ_PASSED]: `pass quiz "${requiredQuiz?.title}"`,
+      [PrerequisiteType.MIN_LEVEL]: `reach level ${prerequisite.minLevel}`,
+    }[prerequisite.type];
+
+    return {
+      id: prerequisite.id,
+      type: prerequisite.type,
+      requiredModule,
+      requiredQuiz: requiredQuiz ? { id: requiredQuiz.id, title: requiredQuiz.title } : null,
+      minLevel: prerequisite.minLevel,
+      description,
+    };
+  }
+}
+
+export default new PrerequisiteService();
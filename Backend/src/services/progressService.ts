@@ -1,6 +1,12 @@
 import prisma from '../config/prisma';
 import logger from '../config/logger';
-import { ModuleStatus } from '@prisma/client';
+import { ModuleStatus, PointsReason } from '@prisma/client';
+import progressionService from './progressionService';
+import achievementService from './achievementService';
+import prerequisiteService from './prerequisiteService';
+import learningPathService from './learningPathService';
+import certificateService from './certificateService';
+import { NotFoundError, ValidationError } from '../utils/errors';
 
 export class ProgressService {
   /**
@@ -81,20 +87,22 @@ export class ProgressService {
   }
 
   /**
-   * Start module progress
+   * Start module progress; locked modules cannot be started
    */
   async startModule(userId: string, moduleId: string) {
-    try {
-      const existing = await prisma.userProgress.findUnique({
-        where: {
-          userId_moduleId: { userId, moduleId },
-        },
-      });
+    const existing = await prisma.userProgress.findUnique({
+      where: {
+        userId_moduleId: { userId, moduleId },
+      },
+    });
 
-      if (existing) {
-        return existing;
-      }
+    if (existing) {
+      return existing;
+    }
 
+    await prerequisiteService.assertUnlocked(userId, moduleId);
+
+    try {
       return await prisma.userProgress.create({
         data: {
           userId,
@@ -113,53 +121,149 @@ export class ProgressService {
   }
 
   /**
-   * Update module progress
+   * Record that a lesson was opened; it becomes the module's resume point
    */
-  async updateProgress(
-    userId: string,
-    moduleId: string,
-    percentComplete: number,
-    timeSpent: number
-  ) {
-    try {
-      const data: any = {
-        percentComplete,
-        timeSpent,
-      };
+  async viewLesson(userId: string, moduleId: string, lessonId: string, timeSpent: number = 0) {
+    return this.touchLesson(userId, moduleId, lessonId, timeSpent, false);
+  }
 
-      if (percentComplete >= 100) {
-        data.status = ModuleStatus.COMPLETED;
-        data.completedAt = new Date();
-
-        // Award points to user
-        const module = await prisma.module.findUnique({
-          where: { id: moduleId },
-          select: { points: true },
-        });
-
-        if (module) {
-          await prisma.user.update({
-            where: { id: userId },
-            data: {
-              totalPoints: { increment: module.points },
-            },
-          });
-        }
-      }
+  /**
+   * Mark a lesson as completed and refresh the module's progress
+   */
+  async completeLesson(userId: string, moduleId: string, lessonId: string, timeSpent: number = 0) {
+    return this.touchLesson(userId, moduleId, lessonId, timeSpent, true);
+  }
 
-      return await prisma.userProgress.update({
-        where: {
-          userId_moduleId: { userId, moduleId },
-        },
-        data,
-        include: {
-          module: true,
+  /**
+   * Module progress with per-lesson and per-quiz state and the lesson to resume at
+   */
+  async getModuleProgress(userId: string, moduleId: string) {
+    const progress = await prisma.userProgress.findUnique({
+      where: { userId_moduleId: { userId, moduleId } },
+      include: { module: true },
+    });
+
+    if (!progress) {
+      throw new NotFoundError('Progress not found');
+    }
+
+    const status = await this.getCompletionStatus(userId, moduleId);
+
+    return {
+      ...progress,
+      ...status,
+      resumeLesson: this.resumeLesson(status.lessons, progress.lastLessonId),
+    };
+  }
+
+  /**
+   * Completed lessons and passed quizzes of a module. The percentage is null for
+   * modules without lessons or quizzes.
+   */
+  async getCompletionStatus(userId: string, moduleId: string) {
+    const [lessons, quizzes] = await Promise.all([
+      prisma.course.findMany({
+        where: { moduleId },
+        select: {
+          id: true,
+          title: true,
+          lessonNumber: true,
+          lessonProgress: {
+            where: { userId },
+            select: { completedAt: true, lastViewedAt: true, timeSpent: true },
+          },
         },
+        orderBy: { lessonNumber: 'asc' },
+      }),
+      prisma.quiz.findMany({
+        where: { moduleId },
+        select: { id: true, title: true, passingScore: true, scoringPolicy: true },
+      }),
+    ]);
+
+    const passed = await prerequisiteService.passedQuizIds(userId, quizzes);
+    const lessonStates = lessons.map(({ lessonProgress, ...lesson }) => ({
+      ...lesson,
+      completedAt: lessonProgress[0]?.completedAt ?? null,
+      lastViewedAt: lessonProgress[0]?.lastViewedAt ?? null,
+      timeSpent: lessonProgress[0]?.timeSpent ?? 0,
+    }));
+    const quizStates = quizzes.map((quiz) => ({ id: quiz.id, title: quiz.title, passed: passed.has(quiz.id) }));
+
+    const completedLessons = lessonStates.filter((lesson) => lesson.completedAt).length;
+    const passedQuizzes = quizStates.filter((quiz) => quiz.passed).length;
+    const total = lessons.length + quizzes.length;
+
+    return {
+      lessons: lessonStates,
+      quizzes: quizStates,
+      completedLessons,
+      passedQuizzes,
+      percentComplete: total > 0
+        ? Math.round(((completedLessons + passedQuizzes) / total) * 10000) / 100
+        : null,
+      criteriaMet: completedLessons === lessons.length && passedQuizzes === quizzes.length,
+    };
+  }
+
+  /**
+   * Store the derived percentage; modules whose lessons and quizzes are all done are
+   * completed. Completed modules are never downgraded.
+   */
+  async syncModuleProgress(userId: string, moduleId: string) {
+    const progress = await prisma.userProgress.findUnique({
+      where: { userId_moduleId: { userId, moduleId } },
+    });
+
+    if (!progress || progress.status === ModuleStatus.COMPLETED) {
+      return progress;
+    }
+
+    const status = await this.getCompletionStatus(userId, moduleId);
+
+    if (status.percentComplete === null) {
+      return progress;
+    }
+
+    if (status.criteriaMet) {
+      await this.markCompleted(userId, moduleId);
+    } else {
+      await prisma.userProgress.update({
+        where: { id: progress.id },
+        data: { percentComplete: status.percentComplete },
       });
-    } catch (error) {
-      logger.error('Error updating progress:', error);
-      throw new Error('Failed to update progress');
     }
+
+    return prisma.userProgress.findUnique({ where: { id: progress.id } });
+  }
+
+  /**
+   * Complete a module; refused until every lesson is completed and every quiz passed.
+   * Modules without lessons or quizzes complete once they have been started.
+   * Returns whether this call completed it.
+   */
+  async completeModule(userId: string, moduleId: string) {
+    const status = await this.getCompletionStatus(userId, moduleId);
+
+    if (status.percentComplete === null) {
+      const progress = await prisma.userProgress.findUnique({
+        where: { userId_moduleId: { userId, moduleId } },
+      });
+
+      if (!progress) {
+        throw new ValidationError('Start the module before completing it');
+      }
+    } else if (!status.criteriaMet) {
+      const remaining = [
+        ...status.lessons.filter((lesson) => !lesson.completedAt).map((lesson) => `lesson "${lesson.title}"`),
+        ...status.quizzes.filter((quiz) => !quiz.passed).map((quiz) => `quiz "${quiz.title}"`),
+      ];
+      throw new ValidationError(`Module is not finished yet: ${remaining.join(', ')}`);
+    }
+
+    await this.startModule(userId, moduleId);
+
+    return this.markCompleted(userId, moduleId);
   }
 
   /**
@@ -298,6 +402,98 @@ export class ProgressService {
       throw new Error('Failed to update goal');
     }
   }
+
+  private async touchLesson(
+    userId: string,
+    moduleId: string,
+    lessonId: string,
+    timeSpent: number,
+    complete: boolean
+  ) {
+    const lesson = await prisma.course.findFirst({ where: { id: lessonId, moduleId } });
+
+    if (!lesson) {
+      throw new NotFoundError('Lesson not found');
+    }
+
+    await this.startModule(userId, moduleId);
+
+    const now = new Date();
+    const seconds = Math.max(0, Math.round(timeSpent));
+    const existing = await prisma.lessonProgress.findUnique({
+      where: { userId_lessonId: { userId, lessonId } },
+    });
+
+    await prisma.lessonProgress.upsert({
+      where: { userId_lessonId: { userId, lessonId } },
+      create: { userId, lessonId, timeSpent: seconds, completedAt: complete ? now : null },
+      update: {
+        timeSpent: { increment: seconds },
+        lastViewedAt: now,
+        // The first completion is kept
+        ...(complete && !existing?.completedAt ? { completedAt: now } : {}),
+      },
+    });
+
+    await prisma.userProgress.update({
+      where: { userId_moduleId: { userId, moduleId } },
+      data: { lastLessonId: lessonId, timeSpent: { increment: seconds } },
+    });
+
+    if (complete) {
+      await this.syncModuleProgress(userId, moduleId);
+    }
+
+    return this.getModuleProgress(userId, moduleId);
+  }
+
+  private async markCompleted(userId: string, moduleId: string) {
+    // Guarded on the status so points are awarded on the transition only
+    const { count } = await prisma.userProgress.updateMany({
+      where: { userId, moduleId, status: { not: ModuleStatus.COMPLETED } },
+      data: { status: ModuleStatus.COMPLETED, completedAt: new Date(), percentComplete: 100 },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    const module = await prisma.module.findUnique({
+      where: { id: moduleId },
+      select: { points: true },
+    });
+
+    if (module && module.points > 0) {
+      await progressionService.awardPoints(userId, module.points, PointsReason.MODULE_COMPLETION, {
+        referenceId: moduleId,
+        once: true,
+      });
+    }
+
+    await achievementService.evaluate(userId, 'module_completed');
+    await certificateService.issueForModule(userId, moduleId);
+    await learningPathService.syncModuleCompletion(userId, moduleId);
+
+    logger.info(`User ${userId} completed module ${moduleId}`);
+
+    return true;
+  }
+
+  private resumeLesson(
+    lessons: { id: string; title: string; lessonNumber: number; completedAt: Date | null }[],
+    lastLessonId: string | null
+  ) {
+    const lastIndex = lessons.findIndex((lesson) => lesson.id === lastLessonId);
+    const last = lessons[lastIndex];
+
+    // Stay on an unfinished lesson, otherwise move to the next unfinished one
+    const next = last && !last.completedAt
+      ? last
+      : lessons.slice(lastIndex + 1).find((lesson) => !lesson.completedAt) ??
+        lessons.find((lesson) => !lesson.completedAt);
+
+    return next ? { id: next.id, title: next.title, lessonNumber: next.lessonNumber } : null;
+  }
 }
 
 export default new ProgressService();
@@ -0,0 +1,42 @@
+import { ProgressionService } from './progressionService';
+
+jest.mock('../config/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn() },
+}));
+jest.mock('./pointsService', () => ({ __esModule: true, default: {} }));
+jest.mock('./notificationService', () => ({ __esModule: true, default: {} }));
+jest.mock('./rankingService', () => ({ __esModule: true, default: {} }));
+
+describe('ProgressionService XP curve', () => {
+  const progression = new ProgressionService();
+
+  it('needs base * (level - 1) ^ exponent experience per level', () => {
+    expect(progression.xpForLevel(1)).toBe(0);
+    expect(progression.xpForLevel(2)).toBe(100);
+    expect(progression.xpForLevel(3)).toBe(283);
+    expect(progression.xpForLevel(11)).toBe(3162);
+  });
+
+  it('finds the level reached at the thresholds', () => {
+    expect(progression.levelForXp(0)).toBe(1);
+    expect(progression.levelForXp(99)).toBe(1);
+    expect(progression.levelForXp(100)).toBe(2);
+    expect(progression.levelForXp(282)).toBe(2);
+    expect(progression.levelForXp(283)).toBe(3);
+  });
+
+  it('stops at the maximum level', () => {
+    expect(progression.levelForXp(Number.MAX_SAFE_INTEGER)).toBe(100);
+  });
+
+  it('round-trips every threshold', () => {
+    const { thresholds } = progression.getCurve(100);
+
+    expect(thresholds).toHaveLength(100);
+    thresholds.forEach(({ level, experience }) => {
+      expect(progression.levelForXp(experience)).toBe(level);
+    });
+  });
+});
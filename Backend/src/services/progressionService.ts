@@ -0,0 +1,240 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { PointsReason } from '@prisma/client';
+import pointsService from './pointsService';
+import notificationService from './notificationService';
+import rankingService from './rankingService';
+import { NotFoundError } from '../utils/errors';
+
+interface AwardOptions {
+  referenceId?: string;
+  note?: string;
+  // Skip the award when the user already earned points for this reference and reason
+  once?: boolean;
+}
+
+const RECOMPUTE_BATCH_SIZE = 500;
+
+// Helper to get chatGateway instance (see notificationService for rationale)
+const getChatGateway = () => {
+  try {
+    const server = require('../server');
+    return server.chatGateway;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Progression Service
+ * Derives User.level from lifetime experience using a configurable curve
+ */
+export class ProgressionService {
+  private readonly base = Number(process.env.LEVEL_XP_BASE || 100);
+  private readonly exponent = Number(process.env.LEVEL_XP_EXPONENT || 1.5);
+  private readonly maxLevel = Number(process.env.LEVEL_MAX || 100);
+
+  /**
+   * Experience needed to reach a level (level 1 starts at 0)
+   */
+  xpForLevel(level: number): number {
+    if (level <= 1) {
+      return 0;
+    }
+
+    return Math.round(this.base * Math.pow(level - 1, this.exponent));
+  }
+
+  /**
+   * Level reached with the given experience
+   */
+  levelForXp(experience: number): number {
+    let level = 1;
+
+    while (level < this.maxLevel && this.xpForLevel(level + 1) <= experience) {
+      level++;
+    }
+
+    return level;
+  }
+
+  /**
+   * Current curve settings with the thresholds of the first levels
+   */
+  getCurve(levels: number = 20) {
+    return {
+      base: this.base,
+      exponent: this.exponent,
+      maxLevel: this.maxLevel,
+      thresholds: Array.from({ length: Math.min(levels, this.maxLevel) }, (_, index) => ({
+        level: index + 1,
+        experience: this.xpForLevel(index + 1),
+      })),
+    };
+  }
+
+  /**
+   * Level, experience and distance to the next level for a user
+   */
+  async getProgress(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { level: true, experience: true, totalPoints: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const current = this.xpForLevel(user.level);
+    const next = user.level < this.maxLevel ? this.xpForLevel(user.level + 1) : null;
+
+    return {
+      level: user.level,
+      experience: user.experience,
+      totalPoints: user.totalPoints,
+      currentLevelXp: current,
+      nextLevelXp: next,
+      progressPercent: next === null
+        ? 100
+        : Math.min(100, Math.floor(((user.experience - current) / (next - current)) * 100)),
+    };
+  }
+
+  /**
+   * Credit earned points through the ledger and update the level
+   */
+  async awardPoints(userId: string, amount: number, reason: PointsReason, options: AwardOptions = {}) {
+    const { once, referenceId, ...entryOptions } = options;
+
+    const entry = once && referenceId
+      ? await pointsService.creditOnce(userId, amount, reason, { ...entryOptions, referenceId })
+      : await pointsService.credit(userId, amount, reason, { ...entryOptions, referenceId });
+
+    if (!entry) {
+      return null;
+    }
+
+    await this.syncLevel(userId);
+    return entry;
+  }
+
+  /**
+   * Manual admin correction followed by a level update
+   */
+  async adjustPoints(userId: string, amount: number, adminId: string, note?: string) {
+    const entry = await pointsService.adjust(userId, amount, adminId, note);
+    await this.syncLevel(userId);
+    return entry;
+  }
+
+  /**
+   * Bring User.level in line with experience; announces level-ups
+   */
+  async syncLevel(userId: string) {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { level: true, experience: true, totalPoints: true },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const level = this.levelForXp(user.experience);
+
+    if (level === user.level) {
+      return { level, leveledUp: false };
+    }
+
+    // Guarded on the old level so concurrent awards announce a level-up only once
+    const { count } = await prisma.user.updateMany({
+      where: { id: userId, level: user.level },
+      data: { level },
+    });
+
+    const leveledUp = count > 0 && level > user.level;
+
+    if (leveledUp) {
+      logger.info(`User ${userId} reached level ${level}`);
+      await this.announceLevelUp(userId, level, user.totalPoints);
+    }
+
+    return { level, leveledUp };
+  }
+
+  /**
+   * Recompute every user's level, e.g. after the curve settings changed.
+   * Users from before the ledger get their experience seeded from their balance.
+   */
+  async recomputeAllLevels() {
+    let processed = 0;
+    let changed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const users = await prisma.user.findMany({
+        select: { id: true, level: true, experience: true, totalPoints: true },
+        orderBy: { id: 'asc' },
+        take: RECOMPUTE_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+
+      if (users.length === 0) {
+        break;
+      }
+
+      for (const user of users) {
+        let experience = user.experience;
+
+        if (experience === 0 && user.totalPoints > 0) {
+          const hasEarnings = await prisma.pointsTransaction.count({
+            where: { userId: user.id, amount: { gt: 0 } },
+          });
+
+          if (hasEarnings === 0) {
+            experience = user.totalPoints;
+          }
+        }
+
+        const level = this.levelForXp(experience);
+
+        if (level !== user.level || experience !== user.experience) {
+          await prisma.user.update({
+            where: { id: user.id },
+            data: { level, experience },
+          });
+          changed++;
+        }
+      }
+
+      processed += users.length;
+      cursor = users[users.length - 1]?.id;
+    }
+
+    logger.info(`Recomputed levels for ${processed} users (${changed} changed)`);
+
+    return { processed, changed };
+  }
+
+  private async announceLevelUp(userId: string, level: number, totalPoints: number) {
+    try {
+      await notificationService.notifyLevelUp(userId, level);
+
+      const { rank } = await rankingService.getUserRank(userId);
+      const chatGateway = getChatGateway();
+      chatGateway?.broadcastRankingUpdate({
+        userId,
+        rank,
+        totalPoints,
+        level,
+        timestamp: new Date(),
+      });
+    } catch (error) {
+      // The level is already stored; a failed announcement must not fail the award
+      logger.error('Error announcing level-up:', error);
+    }
+  }
+}
+
+export default new ProgressionService();
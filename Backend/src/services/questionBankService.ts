@@ -0,0 +1,287 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { Difficulty, Prisma, Quiz } from '@prisma/client';
+import quizGradingService from './quizGradingService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { seededRandom, shuffle } from '../utils/helpers';
+import { DrawnQuestion, QuizPool } from '../types/quiz';
+
+interface QuestionBankInput {
+  name: string;
+  description?: string | null;
+  moduleId?: string | null;
+  topic?: string | null;
+  difficulty?: Difficulty | null;
+}
+
+interface QuestionBankFilters {
+  moduleId?: string;
+  topic?: string;
+  difficulty?: Difficulty;
+}
+
+/**
+ * Question Bank Service
+ * Reusable question pools that quizzes draw from on every attempt
+ */
+export class QuestionBankService {
+  /**
+   * List banks with their question counts
+   */
+  async getBanks(filters: QuestionBankFilters = {}) {
+    try {
+      return await prisma.questionBank.findMany({
+        where: {
+          moduleId: filters.moduleId,
+          topic: filters.topic,
+          difficulty: filters.difficulty,
+        },
+        include: { _count: { select: { questions: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      logger.error('Error fetching question banks:', error);
+      throw new Error('Failed to fetch question banks');
+    }
+  }
+
+  /**
+   * Get a bank with its questions (answer keys included; admin only)
+   */
+  async getBank(bankId: string) {
+    const bank = await prisma.questionBank.findUnique({
+      where: { id: bankId },
+      include: { questions: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!bank) {
+      throw new NotFoundError('Question bank not found');
+    }
+
+    return bank;
+  }
+
+  /**
+   * Create a bank
+   */
+  async createBank(data: QuestionBankInput) {
+    try {
+      await this.assertModule(data.moduleId);
+
+      const bank = await prisma.questionBank.create({ data });
+
+      logger.info(`Question bank ${bank.id} created`);
+
+      return bank;
+    } catch (error) {
+      logger.error('Error creating question bank:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a bank's details
+   */
+  async updateBank(bankId: string, data: Partial<QuestionBankInput>) {
+    try {
+      await this.getBank(bankId);
+      await this.assertModule(data.moduleId);
+
+      return await prisma.questionBank.update({ where: { id: bankId }, data });
+    } catch (error) {
+      logger.error('Error updating question bank:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a bank; refused while a quiz still draws from it
+   */
+  async deleteBank(bankId: string) {
+    try {
+      await this.getBank(bankId);
+
+      const usedBy = await prisma.quiz.count({
+        where: { pools: { array_contains: [{ bankId }] } },
+      });
+
+      if (usedBy > 0) {
+        throw new ConflictError(`Question bank is used by ${usedBy} quiz(zes)`);
+      }
+
+      await prisma.questionBank.delete({ where: { id: bankId } });
+
+      logger.info(`Question bank ${bankId} deleted`);
+    } catch (error) {
+      logger.error('Error deleting question bank:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add questions to a bank; each one is validated like quiz questions
+   */
+  async addQuestions(bankId: string, raw: unknown) {
+    try {
+      await this.getBank(bankId);
+
+      const questions = quizGradingService.validateQuestions(raw);
+
+      await prisma.bankQuestion.createMany({
+        data: questions.map((question) => ({
+          bankId,
+          data: question as unknown as Prisma.InputJsonObject,
+        })),
+      });
+
+      return this.getBank(bankId);
+    } catch (error) {
+      logger.error('Error adding bank questions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a single bank question
+   */
+  async updateQuestion(bankId: string, questionId: string, raw: unknown) {
+    try {
+      await this.getQuestion(bankId, questionId);
+
+      const [question] = quizGradingService.validateQuestions([raw]);
+
+      return await prisma.bankQuestion.update({
+        where: { id: questionId },
+        data: { data: question as unknown as Prisma.InputJsonObject },
+      });
+    } catch (error) {
+      logger.error('Error updating bank question:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a bank question; attempts keep the copy they were drawn with. Refused while
+   * a quiz pool would draw more questions than the bank has left.
+   */
+  async deleteQuestion(bankId: string, questionId: string) {
+    try {
+      await this.getQuestion(bankId, questionId);
+
+      // Quizzes drawing from this bank must still find enough questions afterwards
+      const quizzes = await prisma.quiz.findMany({
+        where: { pools: { array_contains: [{ bankId }] } },
+        select: { title: true, pools: true },
+      });
+      const remaining = (await prisma.bankQuestion.count({ where: { bankId } })) - 1;
+      const short = quizzes.find((quiz) =>
+        ((quiz.pools as unknown as QuizPool[] | null) ?? []).some(
+          (pool) => pool.bankId === bankId && pool.count > remaining
+        )
+      );
+
+      if (short) {
+        throw new ConflictError(
+          `Quiz "${short.title}" draws more questions from this bank than would remain`
+        );
+      }
+
+      await prisma.bankQuestion.delete({ where: { id: questionId } });
+    } catch (error) {
+      logger.error('Error deleting bank question:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate quiz draw rules against the banks; returns them normalized
+   */
+  async validatePools(raw: unknown): Promise<QuizPool[]> {
+    if (!Array.isArray(raw)) {
+      throw new ValidationError('Pools must be an array of { bankId, count }');
+    }
+
+    const pools = raw.map((pool, index) => {
+      if (
+        typeof pool?.bankId !== 'string' ||
+        !Number.isInteger(pool?.count) ||
+        pool.count < 1
+      ) {
+        throw new ValidationError(`Pool ${index + 1}: bankId and a positive count are required`);
+      }
+      return { bankId: pool.bankId as string, count: pool.count as number };
+    });
+
+    if (new Set(pools.map((pool) => pool.bankId)).size !== pools.length) {
+      throw new ValidationError('Each bank can only be used in one pool');
+    }
+
+    for (const [index, pool] of pools.entries()) {
+      const bank = await prisma.questionBank.findUnique({
+        where: { id: pool.bankId },
+        select: { _count: { select: { questions: true } } },
+      });
+
+      if (!bank) {
+        throw new NotFoundError(`Pool ${index + 1}: question bank not found`);
+      }
+
+      if (pool.count > bank._count.questions) {
+        throw new ValidationError(`Pool ${index + 1}: bank only has ${bank._count.questions} question(s)`);
+      }
+    }
+
+    return pools;
+  }
+
+  /**
+   * Questions for one attempt: the quiz's fixed questions plus random picks from
+   * each pool, in a shuffled order. The same seed always gives the same draw;
+   * without a seed the fixed questions come back in stored order.
+   */
+  async drawQuestions(quiz: Quiz, seed: string | null): Promise<DrawnQuestion[]> {
+    const drawn: DrawnQuestion[] = quizGradingService
+      .parseStored(quiz.questions)
+      .map((question, index) => ({ ...question, ref: `quiz:${index}` }));
+
+    if (!seed) {
+      return drawn;
+    }
+
+    const random = seededRandom(seed);
+
+    for (const pool of (quiz.pools as unknown as QuizPool[] | null) ?? []) {
+      const candidates = await prisma.bankQuestion.findMany({
+        where: { bankId: pool.bankId },
+        orderBy: { id: 'asc' },
+      });
+
+      for (const candidate of shuffle(candidates, random).slice(0, pool.count)) {
+        drawn.push({
+          ...quizGradingService.parseStored([candidate.data])[0]!,
+          ref: candidate.id,
+        });
+      }
+    }
+
+    return shuffle(drawn, random);
+  }
+
+  private async getQuestion(bankId: string, questionId: string) {
+    const question = await prisma.bankQuestion.findFirst({ where: { id: questionId, bankId } });
+
+    if (!question) {
+      throw new NotFoundError('Bank question not found');
+    }
+
+    return question;
+  }
+
+  private async assertModule(moduleId?: string | null) {
+    if (moduleId && !(await prisma.module.findUnique({ where: { id: moduleId } }))) {
+      throw new NotFoundError('Module not found');
+    }
+  }
+}
+
+export default new QuestionBankService();
@@ -0,0 +1,97 @@
+import quizFormatService from './quizFormatService';
+import quizGradingService from './quizGradingService';
+import { QuizQuestion } from '../types/quiz';
+
+jest.mock('../config/prisma', () => ({ __esModule: true, default: {} }));
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn() },
+}));
+jest.mock('./quizService', () => ({ __esModule: true, default: {} }));
+
+const giftQuestions: QuizQuestion[] = [
+  {
+    type: 'single_choice',
+    question: 'What does {x: 1} = ?',
+    options: ['An object', 'A set', 'A #hash'],
+    correctAnswer: 0,
+    explanation: 'Braces ~ colons make an object literal',
+  },
+  {
+    type: 'multiple_choice',
+    question: 'Prime numbers?',
+    options: ['2', '3', '4', '5'],
+    correctAnswers: [0, 1, 3],
+  },
+  { type: 'true_false', question: 'The sky is blue', correctAnswer: false },
+  {
+    type: 'matching',
+    question: 'Match the capitals',
+    pairs: [
+      { left: 'France', right: 'Paris' },
+      { left: 'Italy', right: 'Rome' },
+    ],
+  },
+  { type: 'numeric', question: 'Pi to two decimals', correctAnswer: 3.14, tolerance: 0.005 },
+  { type: 'short_text', question: 'Chemical symbol of gold', acceptedAnswers: ['Au', 'AU'] },
+];
+
+const parsedQuestions = (result: { questions: { question: unknown }[] }) =>
+  quizGradingService.validateQuestions(result.questions.map((entry) => entry.question));
+
+describe('QuizFormatService', () => {
+  describe('GIFT', () => {
+    it('reads back what it writes', () => {
+      const result = quizFormatService.parseGift(
+        quizFormatService.toGift('Round trip', giftQuestions)
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(parsedQuestions(result)).toEqual(giftQuestions);
+    });
+
+    it('skips question types GIFT cannot express', () => {
+      const gift = quizFormatService.toGift('Ordering', [
+        { type: 'ordering', question: 'Smallest first', items: ['one', 'two'] },
+      ]);
+
+      expect(gift).toContain('// Question 1 skipped');
+      expect(quizFormatService.parseGift(gift).questions).toEqual([]);
+    });
+
+    it('reports malformed questions with the line they start on', () => {
+      const result = quizFormatService.parseGift(
+        '// Quiz\n\n::Q1:: Fine {=yes ~no}\n\n::Q2:: Broken\nno answers\n'
+      );
+
+      expect(result.questions).toHaveLength(1);
+      expect(result.errors).toEqual([{ line: 5, message: 'Missing answer block { ... }' }]);
+    });
+  });
+
+  describe('CSV', () => {
+    const csvQuestions: QuizQuestion[] = [
+      ...giftQuestions,
+      {
+        type: 'ordering',
+        question: 'Smallest first, then "the rest"',
+        items: ['one', 'two | three'],
+        weight: 2,
+      },
+    ];
+
+    it('reads back what it writes', () => {
+      const result = quizFormatService.parseCsv(quizFormatService.toCsv(csvQuestions));
+
+      expect(result.errors).toEqual([]);
+      expect(parsedQuestions(result)).toEqual(csvQuestions);
+    });
+
+    it('requires a header naming the known columns', () => {
+      const result = quizFormatService.parseCsv('question,answer\nWhat?,yes\n');
+
+      expect(result.questions).toEqual([]);
+      expect(result.errors[0]?.line).toBe(1);
+    });
+  });
+});
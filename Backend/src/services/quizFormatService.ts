@@ -0,0 +1,606 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import quizGradingService from './quizGradingService';
+import quizService from './quizService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { QuizFormat, QuizImportError, QuizQuestion } from '../types/quiz';
+
+interface QuizImportInput {
+  format: QuizFormat;
+  content: string;
+  moduleId: string;
+  title: string;
+  dryRun?: boolean;
+  authorId?: string;
+}
+
+interface ParsedQuestion {
+  line: number;
+  question: unknown;
+}
+
+interface ParseResult {
+  questions: ParsedQuestion[];
+  errors: QuizImportError[];
+}
+
+export const CSV_COLUMNS = ['type', 'question', 'options', 'correct', 'weight', 'explanation', 'lessonId'];
+
+// Characters with a meaning in GIFT that must be escaped in text
+const GIFT_SPECIAL = /([~=#{}:])/g;
+const MAX_REPORTED_ERRORS = 5;
+
+const unescapeGift = (value: string): string => value.replace(/\\([~=#{}:])/g, '$1').trim();
+
+const escapeGift = (value: string): string => value.replace(GIFT_SPECIAL, '\\$1');
+
+/**
+ * Split on unescaped delimiter characters; each part after the first starts with its delimiter
+ */
+const splitUnescaped = (value: string, delimiters: string): string[] => {
+  const parts = [''];
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i] as string;
+
+    if (char === '\\' && i + 1 < value.length) {
+      parts[parts.length - 1] += char + value[i + 1];
+      i++;
+    } else if (delimiters.includes(char)) {
+      parts.push(char);
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+
+  return parts;
+};
+
+const indexOfUnescaped = (value: string, char: string, from: number = 0): number => {
+  for (let i = from; i < value.length; i++) {
+    if (value[i] === '\\') {
+      i++;
+    } else if (value[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// CSV lists are separated by `|`; a literal pipe is written as `\|`
+const splitList = (value: string): string[] =>
+  value
+    .split(/(?<!\\)\|/)
+    .map((item) => item.replace(/\\\|/g, '|').trim())
+    .filter((item) => item.length > 0);
+
+const joinList = (values: (string | number)[]): string =>
+  values.map((value) => String(value).replace(/\|/g, '\\|')).join('|');
+
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Quiz Format Service
+ * Converts quizzes to and from Moodle GIFT text and the documented CSV layout
+ */
+export class QuizFormatService {
+  /**
+   * Import questions into a new quiz. Every question is validated and errors are
+   * reported with the line they start on; a dry run only reports.
+   */
+  async importQuiz(input: QuizImportInput) {
+    try {
+      const { questions: parsed, errors } = input.format === 'gift'
+        ? this.parseGift(input.content)
+        : this.parseCsv(input.content);
+      const questions: QuizQuestion[] = [];
+
+      for (const { line, question } of parsed) {
+        try {
+          questions.push(...quizGradingService.validateQuestions([question]));
+        } catch (error) {
+          if (!(error instanceof ValidationError)) {
+            throw error;
+          }
+          errors.push({ line, message: error.message.replace(/^Question 1: /, '') });
+        }
+      }
+
+      if (parsed.length === 0 && errors.length === 0) {
+        errors.push({ line: 1, message: 'No questions found' });
+      }
+
+      errors.sort((a, b) => a.line - b.line);
+
+      const module = await prisma.module.findUnique({ where: { id: input.moduleId } });
+      if (!module) {
+        throw new NotFoundError('Module not found');
+      }
+
+      const report = {
+        format: input.format,
+        dryRun: Boolean(input.dryRun),
+        questionCount: questions.length,
+        errors,
+        questions,
+      };
+
+      if (input.dryRun) {
+        return { ...report, quiz: null };
+      }
+
+      if (errors.length > 0) {
+        const listed = errors
+          .slice(0, MAX_REPORTED_ERRORS)
+          .map((error) => `line ${error.line}: ${error.message}`)
+          .join('; ');
+        throw new ValidationError(`Import has ${errors.length} error(s): ${listed}`);
+      }
+
+      const quiz = await quizService.createQuiz({
+        moduleId: input.moduleId,
+        title: input.title,
+        questions,
+      }, input.authorId);
+
+      logger.info(`Imported ${questions.length} question(s) from ${input.format} into quiz ${quiz.id}`);
+
+      return { ...report, quiz };
+    } catch (error) {
+      logger.error('Error importing quiz:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Export a quiz's fixed questions. Pool questions are drawn per attempt and are
+   * not part of the export; ordering questions have no GIFT equivalent and are skipped.
+   */
+  async exportQuiz(quizId: string, format: QuizFormat) {
+    const quiz = await prisma.quiz.findUnique({ where: { id: quizId } });
+
+    if (!quiz) {
+      throw new NotFoundError('Quiz not found');
+    }
+
+    const questions = quizGradingService.parseStored(quiz.questions);
+    const slug = quiz.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'quiz';
+
+    return format === 'gift'
+      ? { filename: `${slug}.gift.txt`, contentType: 'text/plain', content: this.toGift(quiz.title, questions) }
+      : { filename: `${slug}.csv`, contentType: 'text/csv', content: this.toCsv(questions) };
+  }
+
+  /**
+   * Questions as GIFT text
+   */
+  toGift(title: string, questions: QuizQuestion[]): string {
+    const blocks = [`// ${title.replace(/\n/g, ' ')}`];
+
+    questions.forEach((question, index) => {
+      const answer = this.giftAnswer(question);
+
+      if (answer === null) {
+        blocks.push(`// Question ${index + 1} skipped: ${question.type} questions have no GIFT equivalent`);
+        return;
+      }
+
+      const feedback = question.explanation ? ` ####${escapeGift(question.explanation)}` : '';
+      blocks.push(`::Q${index + 1}:: ${escapeGift(question.question)} {${answer}${feedback}}`);
+    });
+
+    return `${blocks.join('\n\n')}\n`;
+  }
+
+  /**
+   * Questions as CSV rows under the CSV_COLUMNS header
+   */
+  toCsv(questions: QuizQuestion[]): string {
+    const rows = questions.map((question) => {
+      let options: string | undefined;
+      let correct: string | undefined;
+
+      switch (question.type) {
+        case 'single_choice':
+          options = joinList(question.options);
+          correct = String(question.correctAnswer + 1);
+          break;
+        case 'multiple_choice':
+          options = joinList(question.options);
+          correct = joinList(question.correctAnswers.map((index) => index + 1));
+          break;
+        case 'true_false':
+          correct = String(question.correctAnswer);
+          break;
+        case 'ordering':
+          options = joinList(question.items);
+          break;
+        case 'matching':
+          options = joinList(question.pairs.map((pair) => `${pair.left} -> ${pair.right}`));
+          break;
+        case 'numeric':
+          correct = joinList([question.correctAnswer, question.tolerance ?? 0]);
+          break;
+        case 'short_text':
+          correct = joinList(question.acceptedAnswers);
+          break;
+      }
+
+      return [
+        question.type,
+        question.question,
+        options,
+        correct,
+        question.weight,
+        question.explanation,
+        question.lessonId,
+      ]
+        .map(csvField)
+        .join(',');
+    });
+
+    return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`;
+  }
+
+  /**
+   * Parse GIFT text: questions are separated by blank lines, `//` lines are comments
+   */
+  parseGift(content: string): ParseResult {
+    const result: ParseResult = { questions: [], errors: [] };
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+    let block: string[] = [];
+    let start = 0;
+
+    const flush = () => {
+      if (block.length === 0) {
+        return;
+      }
+
+      try {
+        result.questions.push({ line: start, question: this.parseGiftQuestion(block.join('\n')) });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        result.errors.push({ line: start, message: error.message });
+      }
+      block = [];
+    };
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+
+      if (trimmed.startsWith('//') || trimmed.startsWith('$CATEGORY:')) {
+        return;
+      }
+
+      if (trimmed === '') {
+        flush();
+        return;
+      }
+
+      if (block.length === 0) {
+        start = index + 1;
+      }
+      block.push(line);
+    });
+    flush();
+
+    return result;
+  }
+
+  /**
+   * Parse CSV with a header row naming the CSV_COLUMNS (in any order; `type`
+   * defaults to single_choice). Option numbers in `correct` start at 1.
+   */
+  parseCsv(content: string): ParseResult {
+    const result: ParseResult = { questions: [], errors: [] };
+    const { records, unterminatedAt } = this.parseCsvRecords(content);
+    const [header, ...rows] = records;
+
+    if (unterminatedAt !== null) {
+      result.errors.push({ line: unterminatedAt, message: 'Unterminated quoted field' });
+    }
+
+    if (!header) {
+      return result;
+    }
+
+    const columns = header.fields.map((name) => name.trim().toLowerCase());
+    const unknown = columns.filter((name) => !CSV_COLUMNS.some((column) => column.toLowerCase() === name));
+
+    if (!columns.includes('question') || unknown.length > 0) {
+      result.errors.push({
+        line: header.line,
+        message: `Header must name the columns ${CSV_COLUMNS.join(', ')}` +
+          (unknown.length > 0 ? ` (unknown: ${unknown.join(', ')})` : ''),
+      });
+      return result;
+    }
+
+    for (const row of rows) {
+      if (row.fields.every((field) => field.trim() === '')) {
+        continue;
+      }
+
+      const get = (column: string) => (row.fields[columns.indexOf(column.toLowerCase())] ?? '').trim();
+
+      try {
+        result.questions.push({ line: row.line, question: this.csvRowToQuestion(get) });
+      } catch (error) {
+        if (!(error instanceof ValidationError)) {
+          throw error;
+        }
+        result.errors.push({ line: row.line, message: error.message });
+      }
+    }
+
+    return result;
+  }
+
+  private parseGiftQuestion(text: string): Record<string, unknown> {
+    const open = indexOfUnescaped(text, '{');
+    const close = open === -1 ? -1 : indexOfUnescaped(text, '}', open);
+
+    if (open === -1 || close === -1) {
+      throw new ValidationError('Missing answer block { ... }');
+    }
+
+    const head = text
+      .slice(0, open)
+      .replace(/^\s*::(?:\\.|[^:])*::/, '')
+      .replace(/^\s*\[(?:html|moodle|plain|markdown)\]/, '');
+    const tail = unescapeGift(text.slice(close + 1));
+    const question = tail ? `${unescapeGift(head)} _____ ${tail}` : unescapeGift(head);
+
+    // General feedback follows `####` and becomes the explanation
+    const [answerText = '', ...feedback] = text.slice(open + 1, close).split(/(?<!\\)####/);
+    const explanation = feedback.length > 0 ? unescapeGift(feedback.join('####')) : '';
+    const answer = answerText.trim();
+    const base = { question, ...(explanation ? { explanation } : {}) };
+
+    if (answer === '') {
+      throw new ValidationError('Essay questions are not supported');
+    }
+
+    const trueFalse = /^(T|TRUE|F|FALSE)\s*(#.*)?$/is.exec(answer);
+    if (trueFalse) {
+      return { ...base, type: 'true_false', correctAnswer: (trueFalse[1] as string).toUpperCase().startsWith('T') };
+    }
+
+    if (answer.startsWith('#')) {
+      return { ...base, type: 'numeric', ...this.parseGiftNumeric(answer.slice(1)) };
+    }
+
+    const [before = '', ...choices] = splitUnescaped(answer, '=~');
+    if (before.trim() !== '') {
+      throw new ValidationError('Answers must start with = or ~');
+    }
+
+    const parsed = choices.map((choice) => {
+      const marker = choice[0];
+      const feedbackAt = indexOfUnescaped(choice, '#');
+      let body = (feedbackAt === -1 ? choice.slice(1) : choice.slice(1, feedbackAt)).trim();
+      const weight = /^%(-?\d+(?:\.\d+)?)%/.exec(body);
+
+      if (weight) {
+        body = body.slice(weight[0].length);
+      }
+
+      return {
+        correct: marker === '=',
+        weight: weight ? Number(weight[1]) : null,
+        text: body,
+      };
+    });
+
+    const right = parsed.filter((choice) => choice.correct);
+    const wrong = parsed.filter((choice) => !choice.correct);
+
+    if (right.length > 0 && wrong.length === 0 && right.every((choice) => /(?<!\\)->/.test(choice.text))) {
+      return {
+        ...base,
+        type: 'matching',
+        pairs: right.map((choice) => {
+          const [left = '', ...rest] = choice.text.split(/(?<!\\)->/);
+          return { left: unescapeGift(left), right: unescapeGift(rest.join('->')) };
+        }),
+      };
+    }
+
+    if (right.length === 0 && wrong.some((choice) => (choice.weight ?? 0) > 0)) {
+      return {
+        ...base,
+        type: 'multiple_choice',
+        options: wrong.map((choice) => unescapeGift(choice.text)),
+        correctAnswers: wrong
+          .map((choice, index) => ((choice.weight ?? 0) > 0 ? index : -1))
+          .filter((index) => index >= 0),
+      };
+    }
+
+    if (right.length === 1 && wrong.length > 0) {
+      return {
+        ...base,
+        type: 'single_choice',
+        options: parsed.map((choice) => unescapeGift(choice.text)),
+        correctAnswer: parsed.findIndex((choice) => choice.correct),
+      };
+    }
+
+    if (right.length > 0 && wrong.length === 0) {
+      return { ...base, type: 'short_text', acceptedAnswers: right.map((choice) => unescapeGift(choice.text)) };
+    }
+
+    throw new ValidationError('Unsupported answer block');
+  }
+
+  // `#value`, `#value:tolerance`, `#min..max`; with several `=` answers the first counts
+  private parseGiftNumeric(raw: string) {
+    const first = splitUnescaped(raw.trim(), '=').map((part) => part.replace(/^=/, '')).find((part) => part.trim());
+    const body = (first ?? '').split('#')[0]?.replace(/^%-?\d+(?:\.\d+)?%/, '').trim() ?? '';
+    const range = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(body);
+
+    if (range) {
+      const min = Number(range[1]);
+      const max = Number(range[2]);
+      return { correctAnswer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+    }
+
+    const [value = '', tolerance] = body.split(':');
+    return {
+      correctAnswer: value.trim() === '' ? NaN : Number(value),
+      ...(tolerance !== undefined ? { tolerance: Number(tolerance) } : {}),
+    };
+  }
+
+  private giftAnswer(question: QuizQuestion): string | null {
+    switch (question.type) {
+      case 'single_choice':
+        return question.options
+          .map((option, index) => `${index === question.correctAnswer ? '=' : '~'}${escapeGift(option)}`)
+          .join(' ');
+      case 'multiple_choice': {
+        const right = question.correctAnswers.length;
+        const wrong = question.options.length - right;
+        const share = (count: number) => Number((100 / count).toFixed(5));
+        return question.options
+          .map((option, index) =>
+            question.correctAnswers.includes(index)
+              ? `~%${share(right)}%${escapeGift(option)}`
+              : `~%-${share(wrong)}%${escapeGift(option)}`
+          )
+          .join(' ');
+      }
+      case 'true_false':
+        return question.correctAnswer ? 'TRUE' : 'FALSE';
+      case 'matching':
+        return question.pairs
+          .map((pair) => `=${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`)
+          .join(' ');
+      case 'numeric':
+        return `#${question.correctAnswer}:${question.tolerance ?? 0}`;
+      case 'short_text':
+        return question.acceptedAnswers.map((answer) => `=${escapeGift(answer)}`).join(' ');
+      default:
+        return null;
+    }
+  }
+
+  private csvRowToQuestion(get: (column: string) => string): Record<string, unknown> {
+    const type = get('type') || 'single_choice';
+    const weight = get('weight');
+    const explanation = get('explanation');
+    const lessonId = get('lessonId');
+    const options = splitList(get('options'));
+    const correct = get('correct');
+    const optionNumbers = () =>
+      splitList(correct).map((value) => {
+        const number = Number(value);
+        if (!Number.isInteger(number) || number < 1) {
+          throw new ValidationError(`correct must list option numbers starting at 1, got "${value}"`);
+        }
+        return number - 1;
+      });
+
+    const question: Record<string, unknown> = {
+      type,
+      question: get('question'),
+      ...(weight ? { weight: Number(weight) } : {}),
+      ...(explanation ? { explanation } : {}),
+      ...(lessonId ? { lessonId } : {}),
+    };
+
+    switch (type) {
+      case 'single_choice': {
+        const [answer] = optionNumbers();
+        return { ...question, options, correctAnswer: answer };
+      }
+      case 'multiple_choice':
+        return { ...question, options, correctAnswers: optionNumbers() };
+      case 'true_false':
+        if (!/^(true|false)$/i.test(correct)) {
+          throw new ValidationError('correct must be true or false');
+        }
+        return { ...question, correctAnswer: correct.toLowerCase() === 'true' };
+      case 'ordering':
+        return { ...question, items: options };
+      case 'matching':
+        return {
+          ...question,
+          pairs: options.map((option) => {
+            const [left = '', ...right] = option.split('->');
+            return { left: left.trim(), right: right.join('->').trim() };
+          }),
+        };
+      case 'numeric': {
+        const [value = '', tolerance] = splitList(correct);
+        return {
+          ...question,
+          correctAnswer: value === '' ? NaN : Number(value),
+          ...(tolerance !== undefined ? { tolerance: Number(tolerance) } : {}),
+        };
+      }
+      case 'short_text':
+        return { ...question, acceptedAnswers: splitList(correct) };
+      default:
+        // Left to question validation to report the unknown type
+        return question;
+    }
+  }
+
+  // RFC 4180 records; `line` is where each record starts
+  private parseCsvRecords(content: string) {
+    const text = content.replace(/\r\n?/g, '\n');
+    const records: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let start = 1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') {
+            line++;
+          }
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n') {
+        fields.push(field);
+        records.push({ line: start, fields });
+        fields = [];
+        field = '';
+        line++;
+        start = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || fields.length > 0) {
+      fields.push(field);
+      records.push({ line: start, fields });
+    }
+
+    return { records, unterminatedAt: quoted ? start : null };
+  }
+}
+
+export default new QuizFormatService();
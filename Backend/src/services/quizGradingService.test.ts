@@ -0,0 +1,182 @@
+import { QuizScoringPolicy } from '@prisma/client';
+import quizGradingService from './quizGradingService';
+import { ValidationError } from '../utils/errors';
+import { QuizQuestion } from '../types/quiz';
+
+const questions = quizGradingService.validateQuestions([
+  { question: 'Capital of France?', options: ['Berlin', 'Paris', 'Rome'], correctAnswer: 1 },
+  {
+    type: 'multiple_choice',
+    question: 'Prime numbers?',
+    options: ['2', '3', '4', '5'],
+    correctAnswers: [0, 1, 3],
+  },
+  { type: 'true_false', question: 'The sky is blue', correctAnswer: true },
+  { type: 'ordering', question: 'Smallest first', items: ['one', 'two', 'three', 'four'] },
+  {
+    type: 'matching',
+    question: 'Match the capitals',
+    pairs: [
+      { left: 'France', right: 'Paris' },
+      { left: 'Italy', right: 'Rome' },
+      { left: 'Spain', right: 'Madrid' },
+    ],
+  },
+  { type: 'numeric', question: 'Pi to two decimals', correctAnswer: 3.14, tolerance: 0.01 },
+  { type: 'short_text', question: 'Chemical symbol of gold', acceptedAnswers: ['Au'] },
+]);
+
+// Answers keyed by question index, as submitted
+const asAnswers = (values: unknown[]) =>
+  Object.fromEntries(values.map((value, index) => [index.toString(), value]));
+
+// The key lists numeric answers with their tolerance and every accepted text answer
+const keyAsAnswers = (key: unknown[]) =>
+  asAnswers(
+    key.map((entry, index) => {
+      if (questions[index]?.type === 'numeric') {
+        return (entry as { value: number }).value;
+      }
+      return questions[index]?.type === 'short_text' ? (entry as string[])[0] : entry;
+    })
+  );
+
+describe('QuizGradingService', () => {
+  describe('validateQuestions', () => {
+    it('treats questions without a type as single choice', () => {
+      expect(questions[0]?.type).toBe('single_choice');
+    });
+
+    it('names the first malformed question', () => {
+      expect(() =>
+        quizGradingService.validateQuestions([
+          { question: 'Fine', options: ['a', 'b'], correctAnswer: 0 },
+          { type: 'ordering', question: 'Broken', items: ['only one'] },
+        ])
+      ).toThrow(new ValidationError('Question 2: items must be at least two distinct strings'));
+    });
+
+    it('rejects an empty quiz', () => {
+      expect(() => quizGradingService.validateQuestions([])).toThrow(ValidationError);
+    });
+  });
+
+  describe('grade', () => {
+    it('gives full marks for the stored answers', () => {
+      const grade = quizGradingService.grade(
+        questions,
+        asAnswers([1, [0, 1, 3], true, [0, 1, 2, 3], { 0: 0, 1: 1, 2: 2 }, 3.145, '  au '])
+      );
+
+      expect(grade.score).toBe(100);
+      expect(grade.correctAnswers).toBe(questions.length);
+    });
+
+    it('gives partial credit per question type', () => {
+      const grade = quizGradingService.grade(
+        questions,
+        asAnswers([0, [0, 2], false, [1, 0, 2, 3], { 0: 0, 1: 2, 2: 1 }, 3.2, 'Ag'])
+      );
+
+      expect(grade.questionScores.map((item) => item.credit)).toEqual([0, 0, 0, 0.5, 0.3333, 0, 0]);
+      expect(grade.correctAnswers).toBe(0);
+    });
+
+    it('scores unanswered questions as zero and weighs questions', () => {
+      const weighted: QuizQuestion[] = [
+        { type: 'true_false', question: 'a', correctAnswer: true, weight: 3 },
+        { type: 'true_false', question: 'b', correctAnswer: true },
+      ];
+
+      const grade = quizGradingService.grade(weighted, { 0: true });
+
+      expect(grade.earnedPoints).toBe(3);
+      expect(grade.maxPoints).toBe(4);
+      expect(grade.score).toBe(75);
+    });
+  });
+
+  describe('layouts', () => {
+    const fixed = quizGradingService.layoutFor('quiz-1');
+    const shuffled = quizGradingService.layoutFor('quiz-1', 'attempt-seed');
+
+    it.each([
+      ['fixed', fixed],
+      ['shuffled', shuffled],
+    ])('grades the %s answer key as fully correct after mapping it back', (_name, layout) => {
+      const key = quizGradingService.answerKey(questions, layout);
+      const mapped = quizGradingService.mapAnswers(questions, keyAsAnswers(key), layout);
+
+      expect(quizGradingService.grade(questions, mapped).score).toBe(100);
+    });
+
+    it('keeps option order in a fixed layout', () => {
+      const shown = quizGradingService.toPublic(questions, fixed);
+
+      expect(shown[0]).toMatchObject({ options: ['Berlin', 'Paris', 'Rome'] });
+      expect(quizGradingService.answerKey(questions, fixed)[0]).toBe(1);
+    });
+
+    it('never presents ordering items or matching targets in stored order', () => {
+      const twoItems: QuizQuestion[] = [
+        { type: 'ordering', question: 'Order', items: ['first', 'second'] },
+      ];
+
+      for (const quizId of ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']) {
+        const layout = quizGradingService.layoutFor(quizId);
+        const [ordering] = quizGradingService.toPublic(twoItems, layout) as {
+          items: { text: string }[];
+        }[];
+        const shown = quizGradingService.toPublic(questions, layout) as Record<string, unknown>[];
+
+        expect(ordering?.items.map((item) => item.text)).toEqual(['second', 'first']);
+        expect((shown[3]?.items as { text: string }[]).map((item) => item.text)).not.toEqual([
+          'one',
+          'two',
+          'three',
+          'four',
+        ]);
+        expect((shown[4]?.right as { text: string }[]).map((item) => item.text)).not.toEqual([
+          'Paris',
+          'Rome',
+          'Madrid',
+        ]);
+      }
+    });
+
+    it('lists presented positions as indexes, not stored positions', () => {
+      const [, , , ordering] = quizGradingService.toPublic(questions, fixed) as Record<
+        string,
+        unknown
+      >[];
+
+      expect((ordering?.items as { index: number }[]).map((item) => item.index)).toEqual([
+        0, 1, 2, 3,
+      ]);
+    });
+
+    it('presents the same seed the same way', () => {
+      expect(quizGradingService.toPublic(questions, shuffled)).toEqual(
+        quizGradingService.toPublic(
+          questions,
+          quizGradingService.layoutFor('other-quiz', 'attempt-seed')
+        )
+      );
+    });
+
+    it('leaves answer keys out of the public questions', () => {
+      const shown = JSON.stringify(quizGradingService.toPublic(questions, shuffled));
+
+      expect(shown).not.toMatch(/correctAnswer|acceptedAnswers|pairs|tolerance/);
+    });
+  });
+
+  describe('countedScore', () => {
+    it('applies the scoring policy', () => {
+      expect(quizGradingService.countedScore([40, 90, 60], QuizScoringPolicy.BEST)).toBe(90);
+      expect(quizGradingService.countedScore([40, 90, 60], QuizScoringPolicy.LATEST)).toBe(60);
+      expect(quizGradingService.countedScore([40, 90, 60], QuizScoringPolicy.AVERAGE)).toBe(63.33);
+      expect(quizGradingService.countedScore([], QuizScoringPolicy.BEST)).toBeNull();
+    });
+  });
+});
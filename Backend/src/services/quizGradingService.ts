@@ -0,0 +1,426 @@
+import { QuizScoringPolicy } from '@prisma/client';
+import { ValidationError } from '../utils/errors';
+import { seededRandom, shuffle } from '../utils/helpers';
+import {
+  QUESTION_TYPES,
+  QuestionScore,
+  QuizAnswer,
+  QuizGrade,
+  QuizLayout,
+  QuizQuestion,
+} from '../types/quiz';
+
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isIndex = (value: unknown, length: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+const normalizeText = (value: string, caseSensitive?: boolean): string => {
+  const collapsed = value.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+/**
+ * Quiz Grading Service
+ * Validates the Quiz.questions JSON and scores submissions with per-question partial credit
+ */
+export class QuizGradingService {
+  /**
+   * Validate raw questions and return them normalized; throws a ValidationError naming
+   * the first malformed question. Questions without a type are legacy single choice.
+   */
+  validateQuestions(raw: unknown): QuizQuestion[] {
+    if (!Array.isArray(raw) || raw.length === 0) {
+      throw new ValidationError('Quiz must have at least one question');
+    }
+
+    return raw.map((question, index) => {
+      try {
+        return this.validateQuestion(question);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw new ValidationError(`Question ${index + 1}: ${error.message}`);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Grade answers keyed by question index
+   */
+  grade(questions: QuizQuestion[], answers: Record<string, unknown>): QuizGrade {
+    const questionScores: QuestionScore[] = questions.map((question, index) => {
+      const answer = answers[index.toString()];
+      const weight = question.weight ?? 1;
+      const credit = answer === undefined || answer === null
+        ? 0
+        : round(this.creditFor(question, answer as QuizAnswer), 4);
+
+      return { credit, weight, earned: round(credit * weight, 4) };
+    });
+
+    const maxPoints = questionScores.reduce((sum, item) => sum + item.weight, 0);
+    const earnedPoints = questionScores.reduce((sum, item) => sum + item.earned, 0);
+
+    return {
+      score: maxPoints > 0 ? round((earnedPoints / maxPoints) * 100, 2) : 0,
+      earnedPoints: round(earnedPoints, 4),
+      maxPoints,
+      correctAnswers: questionScores.filter((item) => item.credit === 1).length,
+      totalQuestions: questions.length,
+      questionScores,
+    };
+  }
+
+  /**
+   * Layout of an attempt, or of the quiz itself when there is no attempt seed
+   */
+  layoutFor(quizId: string, attemptSeed?: string | null): QuizLayout {
+    return attemptSeed
+      ? { seed: attemptSeed, shuffleOptions: true }
+      : { seed: `quiz:${quizId}`, shuffleOptions: false };
+  }
+
+  /**
+   * Questions as shown to quiz takers, without answer keys. Reordered parts are listed
+   * in presented order and answers refer to the presented positions.
+   */
+  toPublic(questions: QuizQuestion[], layout: QuizLayout) {
+    return questions.map((question, position) => {
+      const base = { type: question.type, question: question.question, weight: question.weight ?? 1 };
+      const order = this.presentedOrder(question, layout, position);
+
+      switch (question.type) {
+        case 'single_choice':
+        case 'multiple_choice':
+          return { ...base, options: order ? order.map((i) => question.options[i]) : question.options };
+        case 'ordering':
+          return {
+            ...base,
+            items: (order ?? question.items.map((_, index) => index)).map((i, index) => ({
+              index,
+              text: question.items[i],
+            })),
+          };
+        case 'matching':
+          return {
+            ...base,
+            left: question.pairs.map((pair) => pair.left),
+            right: (order ?? question.pairs.map((_, index) => index)).map((i, index) => ({
+              index,
+              text: question.pairs[i]?.right,
+            })),
+          };
+        default:
+          return base;
+      }
+    });
+  }
+
+  /**
+   * Translate answers given against presented positions back to the stored indexes
+   */
+  mapAnswers(questions: QuizQuestion[], answers: Record<string, unknown>, layout: QuizLayout) {
+    const mapped: Record<string, unknown> = { ...answers };
+
+    questions.forEach((question, position) => {
+      const key = position.toString();
+      const order = this.presentedOrder(question, layout, position);
+      const answer = answers[key];
+
+      if (!order || answer === undefined || answer === null) {
+        return;
+      }
+
+      const back = (value: unknown) => (isIndex(value, order.length) ? order[value] : -1);
+
+      if (question.type === 'single_choice') {
+        mapped[key] = back(answer);
+      } else if (question.type === 'multiple_choice' || question.type === 'ordering') {
+        mapped[key] = Array.isArray(answer) ? answer.map(back) : answer;
+      } else if (question.type === 'matching' && typeof answer === 'object') {
+        mapped[key] = Object.fromEntries(
+          Object.entries(answer as Record<string, unknown>).map(([left, right]) => [left, back(right)])
+        );
+      }
+    });
+
+    return mapped;
+  }
+
+  /**
+   * Correct answer per question in the shape and positions the taker answered in,
+   * i.e. relative to toPublic with the same layout
+   */
+  answerKey(questions: QuizQuestion[], layout: QuizLayout): unknown[] {
+    return questions.map((question, position) => {
+      const order = this.presentedOrder(question, layout, position);
+      const presented = (index: number) => (order ? order.indexOf(index) : index);
+
+      switch (question.type) {
+        case 'single_choice':
+          return presented(question.correctAnswer);
+        case 'multiple_choice':
+          return question.correctAnswers.map(presented).sort((a, b) => a - b);
+        case 'ordering':
+          return question.items.map((_, index) => presented(index));
+        case 'matching':
+          return Object.fromEntries(question.pairs.map((_, left) => [left, presented(left)]));
+        case 'numeric':
+          return { value: question.correctAnswer, tolerance: question.tolerance ?? 0 };
+        case 'short_text':
+          return question.acceptedAnswers;
+        default:
+          return question.correctAnswer;
+      }
+    });
+  }
+
+  /**
+   * Read stored questions, treating untyped entries as single choice
+   */
+  parseStored(raw: unknown): QuizQuestion[] {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    return raw.map((question) => ({ type: 'single_choice', ...question }) as QuizQuestion);
+  }
+
+  /**
+   * Score that counts under a quiz's policy, from finished attempt scores in the
+   * order they were taken; null before the first finished attempt
+   */
+  countedScore(scores: number[], policy: QuizScoringPolicy): number | null {
+    if (scores.length === 0) {
+      return null;
+    }
+
+    switch (policy) {
+      case QuizScoringPolicy.LATEST:
+        return scores[scores.length - 1] ?? null;
+      case QuizScoringPolicy.AVERAGE:
+        return round(scores.reduce((sum, score) => sum + score, 0) / scores.length, 2);
+      default:
+        return Math.max(...scores);
+    }
+  }
+
+  /**
+   * Stored indexes in presented order for questions with reordered parts
+   */
+  private presentedOrder(question: QuizQuestion, layout: QuizLayout, position: number): number[] | null {
+    let length: number;
+
+    switch (question.type) {
+      case 'single_choice':
+      case 'multiple_choice':
+        if (!layout.shuffleOptions) {
+          return null;
+        }
+        length = question.options.length;
+        break;
+      case 'ordering':
+        length = question.items.length;
+        break;
+      case 'matching':
+        length = question.pairs.length;
+        break;
+      default:
+        return null;
+    }
+
+    const order = shuffle(
+      Array.from({ length }, (_, index) => index),
+      seededRandom(`${layout.seed}:${position}`)
+    );
+
+    // A fixed layout is shown on every attempt, so it must never be the answer itself
+    if (!layout.shuffleOptions && order.every((stored, index) => stored === index)) {
+      order.push(order.shift()!);
+    }
+
+    return order;
+  }
+
+  private creditFor(question: QuizQuestion, answer: QuizAnswer): number {
+    switch (question.type) {
+      case 'single_choice':
+        return answer === question.correctAnswer ? 1 : 0;
+
+      case 'multiple_choice': {
+        if (!Array.isArray(answer)) {
+          return 0;
+        }
+        const picked = new Set(answer);
+        const right = question.correctAnswers.filter((option) => picked.has(option)).length;
+        const wrong = picked.size - right;
+        return Math.max(0, (right - wrong) / question.correctAnswers.length);
+      }
+
+      case 'true_false':
+        return answer === question.correctAnswer ? 1 : 0;
+
+      case 'ordering': {
+        if (!Array.isArray(answer)) {
+          return 0;
+        }
+        const inPlace = question.items.filter((_, position) => answer[position] === position).length;
+        return inPlace / question.items.length;
+      }
+
+      case 'matching': {
+        if (typeof answer !== 'object' || answer === null) {
+          return 0;
+        }
+        const mapping = answer as unknown as Record<string, unknown>;
+        const matched = question.pairs.filter((_, left) => mapping[left.toString()] === left).length;
+        return matched / question.pairs.length;
+      }
+
+      case 'numeric': {
+        const value = typeof answer === 'string' ? Number(answer.trim()) : answer;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          return 0;
+        }
+        // Small epsilon so floating point noise does not fail an exact answer
+        return Math.abs(value - question.correctAnswer) <= (question.tolerance ?? 0) + 1e-9 ? 1 : 0;
+      }
+
+      case 'short_text': {
+        if (typeof answer !== 'string') {
+          return 0;
+        }
+        const given = normalizeText(answer, question.caseSensitive);
+        return question.acceptedAnswers.some(
+          (accepted) => normalizeText(accepted, question.caseSensitive) === given
+        )
+          ? 1
+          : 0;
+      }
+
+      default:
+        return 0;
+    }
+  }
+
+  private validateQuestion(raw: unknown): QuizQuestion {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new ValidationError('must be an object');
+    }
+
+    const question = { type: 'single_choice', ...raw } as QuizQuestion;
+
+    if (!QUESTION_TYPES.includes(question.type)) {
+      throw new ValidationError(`type must be one of ${QUESTION_TYPES.join(', ')}`);
+    }
+
+    if (!isNonEmptyString(question.question)) {
+      throw new ValidationError('question text is required');
+    }
+
+    if (
+      question.weight !== undefined &&
+      (typeof question.weight !== 'number' || !(question.weight > 0) || !Number.isFinite(question.weight))
+    ) {
+      throw new ValidationError('weight must be a positive number');
+    }
+
+    if (question.explanation !== undefined && !isNonEmptyString(question.explanation)) {
+      throw new ValidationError('explanation must be a non-empty string');
+    }
+
+    if (question.lessonId !== undefined && !isNonEmptyString(question.lessonId)) {
+      throw new ValidationError('lessonId must be a lesson ID');
+    }
+
+    switch (question.type) {
+      case 'single_choice':
+        this.assertOptions(question.options);
+        if (!isIndex(question.correctAnswer, question.options.length)) {
+          throw new ValidationError('correctAnswer must be the index of an option');
+        }
+        break;
+
+      case 'multiple_choice':
+        this.assertOptions(question.options);
+        if (
+          !Array.isArray(question.correctAnswers) ||
+          question.correctAnswers.length === 0 ||
+          !question.correctAnswers.every((option) => isIndex(option, question.options.length)) ||
+          new Set(question.correctAnswers).size !== question.correctAnswers.length
+        ) {
+          throw new ValidationError('correctAnswers must be distinct option indexes');
+        }
+        break;
+
+      case 'true_false':
+        if (typeof question.correctAnswer !== 'boolean') {
+          throw new ValidationError('correctAnswer must be true or false');
+        }
+        break;
+
+      case 'ordering':
+        if (
+          !Array.isArray(question.items) ||
+          question.items.length < 2 ||
+          !question.items.every(isNonEmptyString) ||
+          new Set(question.items).size !== question.items.length
+        ) {
+          throw new ValidationError('items must be at least two distinct strings');
+        }
+        break;
+
+      case 'matching':
+        if (
+          !Array.isArray(question.pairs) ||
+          question.pairs.length < 2 ||
+          !question.pairs.every((pair) => isNonEmptyString(pair?.left) && isNonEmptyString(pair?.right)) ||
+          new Set(question.pairs.map((pair) => pair.left)).size !== question.pairs.length ||
+          new Set(question.pairs.map((pair) => pair.right)).size !== question.pairs.length
+        ) {
+          throw new ValidationError('pairs must be at least two { left, right } entries with distinct sides');
+        }
+        break;
+
+      case 'numeric':
+        if (typeof question.correctAnswer !== 'number' || !Number.isFinite(question.correctAnswer)) {
+          throw new ValidationError('correctAnswer must be a number');
+        }
+        if (
+          question.tolerance !== undefined &&
+          (typeof question.tolerance !== 'number' || !(question.tolerance >= 0))
+        ) {
+          throw new ValidationError('tolerance must be a non-negative number');
+        }
+        break;
+
+      case 'short_text':
+        if (
+          !Array.isArray(question.acceptedAnswers) ||
+          question.acceptedAnswers.length === 0 ||
+          !question.acceptedAnswers.every(isNonEmptyString)
+        ) {
+          throw new ValidationError('acceptedAnswers must contain at least one answer');
+        }
+        break;
+    }
+
+    return question;
+  }
+
+  private assertOptions(options: unknown): asserts options is string[] {
+    if (!Array.isArray(options) || options.length < 2 || !options.every(isNonEmptyString)) {
+      throw new ValidationError('options must be at least two non-empty strings');
+    }
+  }
+}
+
+export default new QuizGradingService();
@@ -0,0 +1,207 @@
+import { QuizAttemptStatus, QuizReviewPolicy, QuizScoringPolicy } from '@prisma/client';
+import prisma from '../config/prisma';
+import quizService from './quizService';
+import { AuthorizationError, RateLimitError, ValidationError } from '../utils/errors';
+
+jest.mock('../config/prisma', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    quiz: { findUnique: jest.fn() },
+    quizResult: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn() },
+}));
+jest.mock('./progressionService', () => ({ __esModule: true, default: {} }));
+jest.mock('./progressService', () => ({ __esModule: true, default: {} }));
+jest.mock('./revisionService', () => ({ __esModule: true, default: {} }));
+jest.mock('./achievementService', () => ({
+  __esModule: true,
+  default: { evaluate: jest.fn() },
+}));
+jest.mock('./prerequisiteService', () => ({
+  __esModule: true,
+  default: { assertUnlocked: jest.fn() },
+}));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  quiz: { findUnique: jest.Mock };
+  quizResult: Record<'findFirst' | 'findMany' | 'findUniqueOrThrow' | 'updateMany', jest.Mock>;
+};
+
+const tx = {
+  $executeRaw: jest.fn(),
+  quizResult: { findFirst: jest.fn(), findMany: jest.fn(), create: jest.fn() },
+};
+
+const quiz = {
+  id: 'quiz-1',
+  moduleId: 'module-1',
+  title: 'Quiz',
+  questions: [{ type: 'true_false', question: 'The sky is blue', correctAnswer: true }],
+  timeLimitSeconds: 600,
+  pools: null,
+  shuffle: false,
+  passingScore: 100,
+  maxAttempts: null as number | null,
+  cooldownSeconds: 0,
+  scoringPolicy: QuizScoringPolicy.BEST,
+  reviewPolicy: QuizReviewPolicy.NEVER,
+  createdAt: new Date(),
+};
+
+const secondsAgo = (seconds: number) => new Date(Date.now() - seconds * 1000);
+
+const attempt = (expiresAt: Date | null) => ({
+  id: 'attempt-1',
+  userId: 'user-1',
+  quizId: 'quiz-1',
+  score: 0,
+  answers: { 0: false },
+  questionScores: null,
+  status: QuizAttemptStatus.IN_PROGRESS,
+  startedAt: secondsAgo(700),
+  expiresAt,
+  seed: null,
+  drawnQuestions: null,
+  questionTimes: null,
+  completedAt: new Date(),
+});
+
+describe('QuizService attempt deadlines', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation((run: (client: typeof tx) => unknown) => run(tx));
+    db.quiz.findUnique.mockResolvedValue(quiz);
+    db.quizResult.findFirst.mockResolvedValue(null);
+    db.quizResult.findMany.mockResolvedValue([]);
+    db.quizResult.updateMany.mockResolvedValue({ count: 1 });
+    db.quizResult.findUniqueOrThrow.mockResolvedValue(attempt(null));
+    tx.quizResult.findFirst.mockResolvedValue(null);
+    tx.quizResult.findMany.mockResolvedValue([]);
+    tx.quizResult.create.mockImplementation(({ data }) =>
+      Promise.resolve({ ...attempt(null), ...data, id: 'attempt-2' })
+    );
+  });
+
+  it('gives a new timed attempt its deadline and stores its questions', async () => {
+    const started = await quizService.startQuiz('user-1', 'quiz-1');
+
+    const { data } = tx.quizResult.create.mock.calls[0][0];
+    expect(data.expiresAt.getTime() - data.startedAt.getTime()).toBe(600 * 1000);
+    expect(data.drawnQuestions).toEqual([expect.objectContaining({ ref: 'quiz:0' })]);
+    expect(started.remainingSeconds).toBe(600);
+  });
+
+  it('resumes an open attempt inside the grace period', async () => {
+    db.quizResult.findFirst.mockResolvedValue(attempt(secondsAgo(10)));
+
+    const resumed = await quizService.startQuiz('user-1', 'quiz-1');
+
+    expect(resumed.id).toBe('attempt-1');
+    expect(resumed.remainingSeconds).toBe(0);
+    expect(db.quizResult.updateMany).not.toHaveBeenCalled();
+    expect(tx.quizResult.create).not.toHaveBeenCalled();
+  });
+
+  it('expires an open attempt past the grace period before starting a new one', async () => {
+    db.quizResult.findFirst.mockResolvedValue(attempt(secondsAgo(60)));
+
+    const started = await quizService.startQuiz('user-1', 'quiz-1');
+
+    expect(db.quizResult.updateMany).toHaveBeenCalledWith({
+      where: { id: 'attempt-1', status: QuizAttemptStatus.IN_PROGRESS },
+      data: expect.objectContaining({ status: QuizAttemptStatus.EXPIRED }),
+    });
+    expect(started.id).toBe('attempt-2');
+  });
+
+  it('accepts a submission inside the grace period', async () => {
+    db.quizResult.findFirst.mockResolvedValue(attempt(secondsAgo(10)));
+
+    const outcome = await quizService.submitQuiz('user-1', 'quiz-1', 'attempt-1', { 0: true });
+
+    expect(db.quizResult.updateMany).toHaveBeenCalledWith({
+      where: { id: 'attempt-1', status: QuizAttemptStatus.IN_PROGRESS },
+      data: expect.objectContaining({ status: QuizAttemptStatus.SUBMITTED, score: 100 }),
+    });
+    expect(outcome.score).toBe(100);
+  });
+
+  it('scores a late submission on the saved answers', async () => {
+    const late = attempt(secondsAgo(60));
+    db.quizResult.findFirst.mockResolvedValue(late);
+
+    await expect(
+      quizService.submitQuiz('user-1', 'quiz-1', 'attempt-1', { 0: true })
+    ).rejects.toThrow(ValidationError);
+    expect(db.quizResult.updateMany).toHaveBeenCalledWith({
+      where: { id: 'attempt-1', status: QuizAttemptStatus.IN_PROGRESS },
+      data: expect.objectContaining({
+        status: QuizAttemptStatus.EXPIRED,
+        score: 0,
+        answers: { 0: false },
+        completedAt: late.expiresAt,
+      }),
+    });
+  });
+});
+
+describe('QuizService attempt limits', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation((run: (client: typeof tx) => unknown) => run(tx));
+    db.quiz.findUnique.mockResolvedValue(quiz);
+    db.quizResult.findFirst.mockResolvedValue(null);
+    tx.quizResult.findFirst.mockResolvedValue(null);
+    tx.quizResult.findMany.mockResolvedValue([
+      { score: 40, status: QuizAttemptStatus.SUBMITTED, completedAt: secondsAgo(3600) },
+      { score: 60, status: QuizAttemptStatus.EXPIRED, completedAt: secondsAgo(1800) },
+    ]);
+    tx.quizResult.create.mockImplementation(({ data }) =>
+      Promise.resolve({ ...attempt(null), ...data, id: 'attempt-3' })
+    );
+  });
+
+  it('refuses a new attempt once the limit is used up', async () => {
+    db.quiz.findUnique.mockResolvedValue({ ...quiz, maxAttempts: 2 });
+
+    await expect(quizService.startQuiz('user-1', 'quiz-1')).rejects.toThrow(AuthorizationError);
+    expect(tx.quizResult.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a new attempt during the cooldown', async () => {
+    db.quiz.findUnique.mockResolvedValue({ ...quiz, cooldownSeconds: 3600 });
+
+    await expect(quizService.startQuiz('user-1', 'quiz-1')).rejects.toThrow(RateLimitError);
+    expect(tx.quizResult.create).not.toHaveBeenCalled();
+  });
+
+  it('starts an attempt while attempts remain and the cooldown has passed', async () => {
+    db.quiz.findUnique.mockResolvedValue({ ...quiz, maxAttempts: 3, cooldownSeconds: 600 });
+
+    const started = await quizService.startQuiz('user-1', 'quiz-1');
+
+    expect(started.id).toBe('attempt-3');
+  });
+
+  it('resumes the attempt a concurrent start created instead of starting another', async () => {
+    db.quiz.findUnique.mockResolvedValue({ ...quiz, maxAttempts: 3 });
+    tx.quizResult.findFirst.mockResolvedValue(attempt(new Date(Date.now() + 60 * 1000)));
+
+    const resumed = await quizService.startQuiz('user-1', 'quiz-1');
+
+    expect(tx.$executeRaw).toHaveBeenCalled();
+    expect(resumed.id).toBe('attempt-1');
+    expect(tx.quizResult.create).not.toHaveBeenCalled();
+  });
+});
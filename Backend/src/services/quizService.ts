@@ -1,11 +1,44 @@
+import crypto from 'crypto';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
-import { Prisma } from '@prisma/client';
-
-interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctAnswer: number;
+import {
+  PointsReason,
+  Prisma,
+  Quiz,
+  QuizAttemptStatus,
+  QuizResult,
+  QuizReviewPolicy,
+  QuizScoringPolicy,
+  RevisionEntity,
+} from '@prisma/client';
+import progressionService from './progressionService';
+import achievementService from './achievementService';
+import progressService from './progressService';
+import prerequisiteService from './prerequisiteService';
+import quizGradingService from './quizGradingService';
+import questionBankService from './questionBankService';
+import revisionService from './revisionService';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+} from '../utils/errors';
+import { QuestionScore, QuizPool } from '../types/quiz';
+
+interface QuizInput {
+  moduleId: string;
+  title: string;
+  questions: unknown;
+  timeLimitSeconds?: number | null;
+  pools?: unknown;
+  shuffle?: boolean;
+  passingScore?: number;
+  maxAttempts?: number | null;
+  cooldownSeconds?: number;
+  scoringPolicy?: QuizScoringPolicy;
+  reviewPolicy?: QuizReviewPolicy;
 }
 
 export class QuizService {
@@ -72,7 +105,9 @@ export class QuizService {
   }
 
   /**
-   * Start a quiz attempt
+   * Start a quiz attempt, or resume the user's open attempt on this quiz. New attempts
+   * respect the quiz's attempt limit and cooldown. Every attempt stores the questions
+   * it was started with; quizzes with pools or shuffling also get a per-attempt seed.
    */
   async startQuiz(userId: string, quizId: string) {
     try {
@@ -82,22 +117,92 @@ export class QuizService {
       });
 
       if (!quiz) {
-        throw new Error('Quiz not found');
+        throw new NotFoundError('Quiz not found');
       }
 
-      // Create quiz attempt
-      const attempt = await prisma.quizResult.create({
-        data: {
-          userId,
-          quizId,
-          score: 0,
-          answers: {},
-        },
+      const open = await prisma.quizResult.findFirst({
+        where: { userId, quizId, status: QuizAttemptStatus.IN_PROGRESS },
+        orderBy: { startedAt: 'desc' },
+      });
+
+      // Within the grace period the open attempt can still be submitted, so it is resumed
+      const expiredBefore = new Date(Date.now() - this.gracePeriodMs());
+
+      if (open && (!open.expiresAt || open.expiresAt > expiredBefore)) {
+        return this.toAttemptView(open, quiz);
+      }
+
+      if (open) {
+        await this.finalizeAttempt(open, quiz, QuizAttemptStatus.EXPIRED);
+      }
+
+      await prerequisiteService.assertUnlocked(userId, quiz.moduleId);
+
+      const seed = quiz.shuffle || this.getPools(quiz).length > 0
+        ? crypto.randomBytes(16).toString('hex')
+        : null;
+      const drawnQuestions = await questionBankService.drawQuestions(quiz, seed);
+
+      if (drawnQuestions.length === 0) {
+        throw new ValidationError('Quiz has no questions');
+      }
+
+      const { attempt, resumed } = await prisma.$transaction(async (tx) => {
+        // Starts of the same quiz by the same user run one at a time, so concurrent
+        // requests resume the attempt the first one created
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${userId}), hashtext(${quizId}))`;
+
+        const current = await tx.quizResult.findFirst({
+          where: {
+            userId,
+            quizId,
+            status: QuizAttemptStatus.IN_PROGRESS,
+            OR: [{ expiresAt: null }, { expiresAt: { gt: expiredBefore } }],
+          },
+          orderBy: { startedAt: 'desc' },
+        });
+
+        if (current) {
+          return { attempt: current, resumed: true };
+        }
+
+        const standing = await this.standingFor(userId, quiz, tx);
+
+        if (standing.attemptsRemaining === 0) {
+          throw new AuthorizationError('Maximum number of attempts reached for this quiz');
+        }
+
+        if (standing.nextAttemptAt) {
+          throw new RateLimitError(`Next attempt available at ${standing.nextAttemptAt.toISOString()}`);
+        }
+
+        const now = new Date();
+
+        // Create quiz attempt
+        const created = await tx.quizResult.create({
+          data: {
+            userId,
+            quizId,
+            score: 0,
+            answers: {},
+            status: QuizAttemptStatus.IN_PROGRESS,
+            startedAt: now,
+            expiresAt: quiz.timeLimitSeconds
+              ? new Date(now.getTime() + quiz.timeLimitSeconds * 1000)
+              : null,
+            seed,
+            drawnQuestions: drawnQuestions as unknown as Prisma.InputJsonArray,
+          },
+        });
+
+        return { attempt: created, resumed: false };
       });
 
-      logger.info(`User ${userId} started quiz ${quizId}`);
+      if (!resumed) {
+        logger.info(`User ${userId} started quiz ${quizId}`);
+      }
 
-      return attempt;
+      return this.toAttemptView(attempt, quiz);
     } catch (error) {
       logger.error('Error starting quiz:', error);
       throw error;
@@ -105,13 +210,52 @@ export class QuizService {
   }
 
   /**
-   * Submit quiz and calculate score
+   * Store in-progress answers so an expired attempt is scored on what was given.
+   * Optional timings (seconds per question index) feed the item analysis.
+   */
+  async saveAnswers(
+    userId: string,
+    quizId: string,
+    attemptId: string,
+    answers: Record<string, unknown>,
+    timings?: unknown
+  ) {
+    try {
+      if (typeof answers !== 'object' || answers === null || Array.isArray(answers)) {
+        throw new ValidationError('Answers must be an object keyed by question index');
+      }
+
+      const attempt = await this.getOpenAttempt(userId, quizId, attemptId);
+
+      if (attempt.expiresAt && attempt.expiresAt <= new Date()) {
+        throw new ValidationError('Time limit for this attempt has passed');
+      }
+
+      const questionTimes = this.sanitizeTimings(timings, attempt);
+
+      const updated = await prisma.quizResult.update({
+        where: { id: attempt.id },
+        data: { answers: answers as Prisma.InputJsonObject, questionTimes },
+      });
+
+      return this.withRemainingTime(updated);
+    } catch (error) {
+      logger.error('Error saving quiz answers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Submit quiz and calculate score. Submissions up to the grace period after the
+   * deadline are accepted; later ones are refused and the attempt is scored on its
+   * saved answers.
    */
   async submitQuiz(
     userId: string,
     quizId: string,
     attemptId: string,
-    answers: Record<string, number>
+    answers: Record<string, unknown>,
+    timings?: unknown
   ) {
     try {
       // Get quiz with questions
@@ -120,61 +264,29 @@ export class QuizService {
       });
 
       if (!quiz) {
-        throw new Error('Quiz not found');
+        throw new NotFoundError('Quiz not found');
       }
 
-      // Verify attempt belongs to user
-      const attempt = await prisma.quizResult.findFirst({
-        where: {
-          id: attemptId,
-          userId,
-          quizId,
-        },
-      });
+      const attempt = await this.getOpenAttempt(userId, quizId, attemptId);
 
-      if (!attempt) {
-        throw new Error('Quiz attempt not found');
+      if (attempt.expiresAt && Date.now() > attempt.expiresAt.getTime() + this.gracePeriodMs()) {
+        await this.finalizeAttempt(attempt, quiz, QuizAttemptStatus.EXPIRED);
+        throw new ValidationError('Time limit exceeded; the attempt was scored on its saved answers');
       }
 
-      // Calculate score
-      const questions = quiz.questions as unknown as QuizQuestion[];
-      let correctAnswers = 0;
-      const totalQuestions = questions.length;
+      const outcome = await this.finalizeAttempt(
+        attempt,
+        quiz,
+        QuizAttemptStatus.SUBMITTED,
+        answers,
+        this.sanitizeTimings(timings, attempt)
+      );
 
-      // Guard against empty quiz
-      if (totalQuestions === 0) {
-        throw new Error('Quiz has no questions');
+      if (!outcome) {
+        throw new ConflictError('Quiz attempt was already submitted');
       }
 
-      questions.forEach((question, index) => {
-        const questionKey = index.toString();
-        const userAnswer = answers[questionKey];
-        if (userAnswer !== undefined && userAnswer === question.correctAnswer) {
-          correctAnswers++;
-        }
-      });
-
-      const score = (correctAnswers / totalQuestions) * 100;
-
-      // Update quiz result
-      const result = await prisma.quizResult.update({
-        where: { id: attemptId },
-        data: {
-          score,
-          answers,
-          completedAt: new Date(),
-        },
-      });
-
-      logger.info(`User ${userId} submitted quiz ${quizId} with score ${score}`);
-
-      return {
-        result,
-        score,
-        correctAnswers,
-        totalQuestions,
-        passed: score >= 70,
-      };
+      return outcome;
     } catch (error) {
       logger.error('Error submitting quiz:', error);
       throw error;
@@ -182,19 +294,59 @@ export class QuizService {
   }
 
   /**
-   * Get quiz results for a user
+   * Score attempts whose deadline and grace period have passed (background sweep)
+   */
+  async expireOverdueAttempts(): Promise<number> {
+    const overdue = await prisma.quizResult.findMany({
+      where: {
+        status: QuizAttemptStatus.IN_PROGRESS,
+        expiresAt: { lte: new Date(Date.now() - this.gracePeriodMs()) },
+      },
+      include: { quiz: true },
+      take: 100,
+    });
+
+    let expired = 0;
+    for (const { quiz, ...attempt } of overdue) {
+      try {
+        if (await this.finalizeAttempt(attempt, quiz, QuizAttemptStatus.EXPIRED)) {
+          expired++;
+        }
+      } catch (error) {
+        logger.error(`Error expiring quiz attempt ${attempt.id}:`, error);
+      }
+    }
+
+    if (expired > 0) {
+      logger.info(`Auto-submitted ${expired} expired quiz attempt(s)`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Get quiz results for a user; drawn questions (with answer keys) are left out, and
+   * per-question results only shown while the review is available, see getAttemptReview
    */
   async getQuizResults(userId: string, quizId: string) {
     try {
-      const results = await prisma.quizResult.findMany({
-        where: {
-          userId,
-          quizId,
-        },
-        orderBy: { completedAt: 'desc' },
-      });
+      const [quiz, results] = await Promise.all([
+        prisma.quiz.findUnique({ where: { id: quizId } }),
+        prisma.quizResult.findMany({
+          where: {
+            userId,
+            quizId,
+          },
+          orderBy: { completedAt: 'desc' },
+        }),
+      ]);
+      const reviewable = quiz ? await this.isReviewAvailable(userId, quiz) : false;
 
-      return results;
+      return results.map((result) =>
+        result.status === QuizAttemptStatus.IN_PROGRESS
+          ? this.withRemainingTime(result)
+          : this.toResultView(result, reviewable)
+      );
     } catch (error) {
       logger.error('Error fetching quiz results:', error);
       throw new Error('Failed to fetch quiz results');
@@ -224,33 +376,117 @@ export class QuizService {
         orderBy: { completedAt: 'desc' },
       });
 
-      return results;
+      const quizzes = [...new Map(results.map(({ quiz }) => [quiz.id, quiz])).values()];
+      const reviewable = new Map(
+        await Promise.all(
+          quizzes.map(async (quiz) => [quiz.id, await this.isReviewAvailable(userId, quiz)] as const)
+        )
+      );
+
+      return results.map(({ quiz, ...result }) => ({
+        ...(result.status === QuizAttemptStatus.IN_PROGRESS
+          ? this.withRemainingTime(result)
+          : this.toResultView(result, reviewable.get(quiz.id) ?? false)),
+        quiz: this.toPublicQuiz(quiz),
+      }));
     } catch (error) {
       logger.error('Error fetching user quizzes:', error);
       throw new Error('Failed to fetch user quizzes');
     }
   }
 
+  /**
+   * Per-question review of a finished attempt: the answer given, the correct answer,
+   * credit and explanation. Answers are in the positions the questions were shown in.
+   * Availability follows the quiz's review policy.
+   */
+  async getAttemptReview(userId: string, quizId: string, attemptId: string) {
+    try {
+      const attempt = await prisma.quizResult.findFirst({
+        where: { id: attemptId, userId, quizId },
+        include: { quiz: true },
+      });
+
+      if (!attempt) {
+        throw new NotFoundError('Quiz attempt not found');
+      }
+
+      if (attempt.status === QuizAttemptStatus.IN_PROGRESS) {
+        throw new ConflictError('Quiz attempt is still in progress');
+      }
+
+      const { quiz } = attempt;
+      await this.assertReviewAvailable(userId, quiz);
+
+      const questions = this.attemptQuestions(attempt, quiz);
+      const layout = quizGradingService.layoutFor(quiz.id, attempt.seed);
+      const shown = quizGradingService.toPublic(questions, layout);
+      const key = quizGradingService.answerKey(questions, layout);
+      const given = (attempt.answers as Record<string, unknown>) ?? {};
+      const scores = Array.isArray(attempt.questionScores)
+        ? (attempt.questionScores as unknown as QuestionScore[])
+        : quizGradingService.grade(questions, quizGradingService.mapAnswers(questions, given, layout))
+            .questionScores;
+
+      const lessonIds = questions
+        .map((question) => question.lessonId)
+        .filter((id): id is string => Boolean(id));
+      const lessons = await prisma.course.findMany({
+        where: { id: { in: lessonIds } },
+        select: { id: true, moduleId: true, lessonNumber: true, title: true },
+      });
+
+      return {
+        attemptId: attempt.id,
+        quizId,
+        status: attempt.status,
+        score: attempt.score,
+        completedAt: attempt.completedAt,
+        questions: questions.map((question, position) => ({
+          ...shown[position],
+          position,
+          answer: given[position.toString()] ?? null,
+          correctAnswer: key[position],
+          credit: scores[position]?.credit ?? 0,
+          earned: scores[position]?.earned ?? 0,
+          explanation: question.explanation ?? null,
+          lesson: lessons.find((lesson) => lesson.id === question.lessonId) ?? null,
+        })),
+      };
+    } catch (error) {
+      logger.error('Error fetching quiz attempt review:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get quiz statistics
    */
   async getQuizStatistics(quizId: string) {
     try {
+      const quiz = await prisma.quiz.findUnique({
+        where: { id: quizId },
+        select: { passingScore: true },
+      });
+
+      // Open attempts have no score yet
+      const finished = { quizId, status: { not: QuizAttemptStatus.IN_PROGRESS } };
+
       const [totalAttempts, averageScore, passRate] = await Promise.all([
         prisma.quizResult.count({
-          where: { quizId },
+          where: finished,
         }),
         prisma.quizResult.aggregate({
-          where: { quizId },
+          where: finished,
           _avg: {
             score: true,
           },
         }),
         prisma.quizResult.count({
           where: {
-            quizId,
+            ...finished,
             score: {
-              gte: 70,
+              gte: quiz?.passingScore ?? 70,
             },
           },
         }),
@@ -297,6 +533,105 @@ export class QuizService {
     }
   }
 
+  /**
+   * Create a quiz; malformed questions or pools are rejected with a ValidationError.
+   * A quiz drawing from pools may have no fixed questions.
+   */
+  async createQuiz(data: QuizInput, authorId?: string) {
+    try {
+      const pools = await this.preparePools(data.pools);
+      const questions = this.prepareQuestions(data.questions, pools);
+
+      const module = await prisma.module.findUnique({ where: { id: data.moduleId } });
+      if (!module) {
+        throw new NotFoundError('Module not found');
+      }
+
+      const quiz = await prisma.quiz.create({
+        data: {
+          moduleId: data.moduleId,
+          title: data.title,
+          questions: questions as unknown as Prisma.InputJsonArray,
+          timeLimitSeconds: data.timeLimitSeconds ?? null,
+          pools: this.poolsData(pools),
+          shuffle: data.shuffle ?? false,
+          passingScore: data.passingScore,
+          maxAttempts: data.maxAttempts ?? null,
+          cooldownSeconds: data.cooldownSeconds,
+          scoringPolicy: data.scoringPolicy,
+          reviewPolicy: data.reviewPolicy,
+        },
+      });
+
+      await revisionService.track(RevisionEntity.QUIZ, quiz.id, quiz, authorId);
+
+      logger.info(`Quiz ${quiz.id} created`);
+
+      return quiz;
+    } catch (error) {
+      logger.error('Error creating quiz:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a quiz; replaced questions and pools are validated like on creation.
+   * Open attempts keep the questions they were drawn with.
+   */
+  async updateQuiz(quizId: string, data: Partial<QuizInput>, authorId?: string) {
+    try {
+      const existing = await prisma.quiz.findUnique({ where: { id: quizId } });
+
+      if (!existing) {
+        throw new NotFoundError('Quiz not found');
+      }
+
+      const pools = data.pools === undefined
+        ? this.getPools(existing)
+        : await this.preparePools(data.pools);
+      const questions = data.questions === undefined && data.pools === undefined
+        ? undefined
+        : this.prepareQuestions(data.questions ?? existing.questions, pools);
+
+      const quiz = await prisma.quiz.update({
+        where: { id: quizId },
+        data: {
+          moduleId: data.moduleId,
+          title: data.title,
+          questions: questions as unknown as Prisma.InputJsonArray | undefined,
+          timeLimitSeconds: data.timeLimitSeconds,
+          pools: data.pools === undefined ? undefined : this.poolsData(pools),
+          shuffle: data.shuffle,
+          passingScore: data.passingScore,
+          maxAttempts: data.maxAttempts,
+          cooldownSeconds: data.cooldownSeconds,
+          scoringPolicy: data.scoringPolicy,
+          reviewPolicy: data.reviewPolicy,
+        },
+      });
+
+      await revisionService.track(RevisionEntity.QUIZ, quizId, quiz, authorId, existing);
+
+      return quiz;
+    } catch (error) {
+      logger.error('Error updating quiz:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Quiz as shown to quiz takers, with answer keys removed
+   */
+  toPublicQuiz<T extends Quiz>(quiz: T) {
+    return {
+      ...quiz,
+      questions: quizGradingService.toPublic(
+        quizGradingService.parseStored(quiz.questions),
+        quizGradingService.layoutFor(quiz.id)
+      ),
+    };
+  }
+
   /**
    * Delete quiz (admin only)
    */
@@ -327,9 +662,10 @@ export class QuizService {
     userId: string,
     quizId: string,
     attemptId: string,
-    answers: Record<string, number>
+    answers: Record<string, unknown>,
+    timings?: unknown
   ) {
-    return this.submitQuiz(userId, quizId, attemptId, answers);
+    return this.submitQuiz(userId, quizId, attemptId, answers, timings);
   }
 
   /**
@@ -340,27 +676,21 @@ export class QuizService {
   }
 
   /**
-   * Get best score for a user on a quiz
+   * Get the score that counts for a user under the quiz's scoring policy, with
+   * whether it passes and how many attempts are left
    */
   async getBestScore(userId: string, quizId: string) {
     try {
-      const result = await prisma.quizResult.findFirst({
-        where: {
-          userId,
-          quizId,
-        },
-        orderBy: {
-          score: 'desc',
-        },
-        select: {
-          score: true,
-        },
-      });
+      const quiz = await prisma.quiz.findUnique({ where: { id: quizId } });
 
-      return result?.score || 0;
+      if (!quiz) {
+        throw new NotFoundError('Quiz not found');
+      }
+
+      return await this.standingFor(userId, quiz);
     } catch (error) {
       logger.error('Error fetching best score:', error);
-      throw new Error('Failed to fetch best score');
+      throw error;
     }
   }
 
@@ -372,9 +702,7 @@ export class QuizService {
       const leaderboard = await prisma.quizResult.findMany({
         where: {
           quizId,
-          completedAt: {
-            not: null as any,
-          },
+          status: { not: QuizAttemptStatus.IN_PROGRESS },
         },
         orderBy: {
           score: 'desc',
@@ -403,6 +731,263 @@ export class QuizService {
       throw new Error('Failed to fetch quiz leaderboard');
     }
   }
+
+  /**
+   * Grade and close an open attempt, then award points and achievements.
+   * Returns null when the attempt was closed concurrently.
+   */
+  private async finalizeAttempt(
+    attempt: QuizResult,
+    quiz: Quiz,
+    status: QuizAttemptStatus,
+    answers?: Record<string, unknown>,
+    questionTimes?: Record<string, number>
+  ) {
+    const questions = this.attemptQuestions(attempt, quiz);
+
+    // Guard against empty quiz
+    if (questions.length === 0) {
+      throw new ValidationError('Quiz has no questions');
+    }
+
+    // Answers are stored as given and graded on the stored indexes
+    const given = answers ?? (attempt.answers as Record<string, unknown>) ?? {};
+    const grade = quizGradingService.grade(
+      questions,
+      quizGradingService.mapAnswers(questions, given, quizGradingService.layoutFor(quiz.id, attempt.seed))
+    );
+    const { score, correctAnswers, totalQuestions } = grade;
+    const completedAt = status === QuizAttemptStatus.EXPIRED && attempt.expiresAt
+      ? attempt.expiresAt
+      : new Date();
+
+    // Guarded on the status so a submit racing the sweep is scored only once
+    const { count } = await prisma.quizResult.updateMany({
+      where: { id: attempt.id, status: QuizAttemptStatus.IN_PROGRESS },
+      data: {
+        score,
+        answers: given as Prisma.InputJsonObject,
+        questionScores: grade.questionScores as unknown as Prisma.InputJsonArray,
+        questionTimes,
+        status,
+        completedAt,
+      },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const userId = attempt.userId;
+
+    logger.info(`User ${userId} finished quiz ${quiz.id} (${status}) with score ${score}`);
+
+    const standing = await this.standingFor(userId, quiz);
+    const passed = standing.passed;
+    const result = this.toResultView(
+      await prisma.quizResult.findUniqueOrThrow({ where: { id: attempt.id } }),
+      this.reviewBlockedReason(quiz, standing) === null
+    );
+
+    // Award points the first time the quiz counts as passed
+    if (passed) {
+      const module = await prisma.module.findUnique({
+        where: { id: quiz.moduleId },
+        select: { points: true },
+      });
+
+      const points = module ? Math.floor(module.points * 0.5) : 0;
+      if (points > 0) {
+        await progressionService.awardPoints(userId, points, PointsReason.QUIZ_PASSED, {
+          referenceId: quiz.id,
+          once: true,
+        });
+      }
+
+      // Passed quizzes count towards the module percentage
+      await progressService.syncModuleProgress(userId, quiz.moduleId);
+    }
+
+    await achievementService.evaluate(userId, 'quiz_submitted');
+
+    return {
+      result,
+      score,
+      earnedPoints: grade.earnedPoints,
+      maxPoints: grade.maxPoints,
+      correctAnswers,
+      totalQuestions,
+      passed,
+      countedScore: standing.score,
+      attemptsRemaining: standing.attemptsRemaining,
+    };
+  }
+
+  private async getOpenAttempt(userId: string, quizId: string, attemptId: string) {
+    // Verify attempt belongs to user
+    const attempt = await prisma.quizResult.findFirst({
+      where: {
+        id: attemptId,
+        userId,
+        quizId,
+      },
+    });
+
+    if (!attempt) {
+      throw new NotFoundError('Quiz attempt not found');
+    }
+
+    if (attempt.status !== QuizAttemptStatus.IN_PROGRESS) {
+      throw new ConflictError('Quiz attempt is already closed');
+    }
+
+    return attempt;
+  }
+
+  /**
+   * Counted score, pass state, attempt usage and cooldown for a user on a quiz
+   */
+  private async standingFor(userId: string, quiz: Quiz, db: Prisma.TransactionClient = prisma) {
+    const attempts = await db.quizResult.findMany({
+      where: { userId, quizId: quiz.id },
+      select: { score: true, status: true, completedAt: true },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    const finished = attempts.filter((attempt) => attempt.status !== QuizAttemptStatus.IN_PROGRESS);
+    const score = quizGradingService.countedScore(
+      finished.map((attempt) => attempt.score),
+      quiz.scoringPolicy
+    );
+    const lastFinishedAt = Math.max(0, ...finished.map((attempt) => attempt.completedAt.getTime()));
+    const cooldownEndsAt = lastFinishedAt + quiz.cooldownSeconds * 1000;
+
+    return {
+      scoringPolicy: quiz.scoringPolicy,
+      passingScore: quiz.passingScore,
+      score,
+      passed: score !== null && score >= quiz.passingScore,
+      attemptsUsed: attempts.length,
+      maxAttempts: quiz.maxAttempts,
+      attemptsRemaining: quiz.maxAttempts === null ? null : Math.max(0, quiz.maxAttempts - attempts.length),
+      nextAttemptAt: quiz.cooldownSeconds > 0 && cooldownEndsAt > Date.now() ? new Date(cooldownEndsAt) : null,
+    };
+  }
+
+  private attemptQuestions(attempt: QuizResult, quiz: Quiz) {
+    return quizGradingService.parseStored(attempt.drawnQuestions ?? quiz.questions);
+  }
+
+  private toAttemptView(attempt: QuizResult, quiz: Quiz) {
+    return {
+      ...this.withRemainingTime(attempt),
+      questions: quizGradingService.toPublic(
+        this.attemptQuestions(attempt, quiz),
+        quizGradingService.layoutFor(quiz.id, attempt.seed)
+      ),
+    };
+  }
+
+  private async assertReviewAvailable(userId: string, quiz: Quiz) {
+    const reason = await this.reviewBlockedReasonFor(userId, quiz);
+
+    if (reason) {
+      throw new AuthorizationError(reason);
+    }
+  }
+
+  private async isReviewAvailable(userId: string, quiz: Quiz) {
+    return (await this.reviewBlockedReasonFor(userId, quiz)) === null;
+  }
+
+  private async reviewBlockedReasonFor(userId: string, quiz: Quiz) {
+    const needsStanding =
+      quiz.reviewPolicy === QuizReviewPolicy.AFTER_PASS ||
+      quiz.reviewPolicy === QuizReviewPolicy.AFTER_FINAL_ATTEMPT;
+
+    return this.reviewBlockedReason(quiz, needsStanding ? await this.standingFor(userId, quiz) : null);
+  }
+
+  // Why the quiz's review policy keeps the answer review closed, or null when it is open
+  private reviewBlockedReason(
+    quiz: Quiz,
+    standing: { passed: boolean; attemptsRemaining: number | null } | null
+  ): string | null {
+    switch (quiz.reviewPolicy) {
+      case QuizReviewPolicy.IMMEDIATELY:
+        return null;
+      case QuizReviewPolicy.NEVER:
+        return 'Answer review is not available for this quiz';
+      case QuizReviewPolicy.AFTER_PASS:
+        return standing?.passed ? null : 'Answer review opens once the quiz is passed';
+      case QuizReviewPolicy.AFTER_FINAL_ATTEMPT:
+        return standing?.attemptsRemaining === 0 ? null : 'Answer review opens after your final attempt';
+    }
+  }
+
+  // Drawn questions carry answer keys; they are only exposed through the review
+  private withoutAnswerKeys({ drawnQuestions: _drawn, seed: _seed, ...attempt }: QuizResult) {
+    return attempt;
+  }
+
+  // Per-question credit and the answers given reveal the key, so they follow the review policy
+  private toResultView(result: QuizResult, reviewable: boolean) {
+    const { answers, questionScores, ...attempt } = this.withoutAnswerKeys(result);
+
+    return reviewable ? { ...attempt, answers, questionScores } : attempt;
+  }
+
+  private withRemainingTime(attempt: QuizResult) {
+    return {
+      ...this.withoutAnswerKeys(attempt),
+      remainingSeconds: attempt.expiresAt
+        ? Math.max(0, Math.ceil((attempt.expiresAt.getTime() - Date.now()) / 1000))
+        : null,
+    };
+  }
+
+  // Reported times are capped at the attempt's elapsed time
+  private sanitizeTimings(raw: unknown, attempt: QuizResult): Record<string, number> | undefined {
+    if (raw === undefined || raw === null) {
+      return undefined;
+    }
+
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ValidationError('Timings must be an object of seconds keyed by question index');
+    }
+
+    const elapsed = (Date.now() - attempt.startedAt.getTime()) / 1000;
+
+    return Object.fromEntries(
+      Object.entries(raw as Record<string, unknown>)
+        .filter(([key, value]) => /^\d+$/.test(key) && typeof value === 'number' && value >= 0)
+        .map(([key, value]) => [key, Math.round(Math.min(value as number, elapsed) * 10) / 10])
+    );
+  }
+
+  private getPools(quiz: Quiz): QuizPool[] {
+    return Array.isArray(quiz.pools) ? (quiz.pools as unknown as QuizPool[]) : [];
+  }
+
+  private async preparePools(raw: unknown): Promise<QuizPool[]> {
+    return raw === undefined || raw === null ? [] : questionBankService.validatePools(raw);
+  }
+
+  private prepareQuestions(raw: unknown, pools: QuizPool[]) {
+    if (pools.length > 0 && Array.isArray(raw) && raw.length === 0) {
+      return [];
+    }
+
+    return quizGradingService.validateQuestions(raw);
+  }
+
+  private poolsData(pools: QuizPool[]) {
+    return pools.length > 0 ? (pools as unknown as Prisma.InputJsonArray) : Prisma.DbNull;
+  }
+
+  private gracePeriodMs(): number {
+    return Number(process.env.QUIZ_SUBMIT_GRACE_SECONDS || 30) * 1000;
+  }
 }
 
 export const quizService = new QuizService();
@@ -213,91 +213,6 @@ export class RankingService {
       throw new Error('Failed to fetch user achievements');
     }
   }
-
-  /**
-   * Award achievement to user
-   */
-  async awardAchievement(userId: string, badgeName: string) {
-    try {
-      // Check if already awarded
-      const existing = await prisma.achievement.findFirst({
-        where: { userId, badgeName },
-      });
-
-      if (existing) {
-        return existing;
-      }
-
-      return await prisma.achievement.create({
-        data: {
-          userId,
-          badgeName,
-        },
-      });
-    } catch (error) {
-      logger.error('Error awarding achievement:', error);
-      throw new Error('Failed to award achievement');
-    }
-  }
-
-  /**
-   * Check and award achievements based on user progress
-   */
-  async checkAndAwardAchievements(userId: string) {
-    try {
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
-        include: {
-          userProgress: true,
-          achievements: true,
-        },
-      });
-
-      if (!user) return;
-
-      const achievements = user.achievements.map((a) => a.badgeName);
-      const newAchievements = [];
-
-      // First module completed
-      const completedModules = user.userProgress.filter(
-        (p) => p.status === 'COMPLETED'
-      ).length;
-      if (completedModules >= 1 && !achievements.includes('first_module')) {
-        await this.awardAchievement(userId, 'first_module');
-        newAchievements.push('first_module');
-      }
-
-      // 10 modules completed
-      if (completedModules >= 10 && !achievements.includes('module_master')) {
-        await this.awardAchievement(userId, 'module_master');
-        newAchievements.push('module_master');
-      }
-
-      // 7-day streak
-      if (user.streak >= 7 && !achievements.includes('week_warrior')) {
-        await this.awardAchievement(userId, 'week_warrior');
-        newAchievements.push('week_warrior');
-      }
-
-      // Level 10 reached
-      if (user.level >= 10 && !achievements.includes('level_10')) {
-        await this.awardAchievement(userId, 'level_10');
-        newAchievements.push('level_10');
-      }
-
-      // 1000 points
-      if (user.totalPoints >= 1000 && !achievements.includes('point_collector')) {
-        await this.awardAchievement(userId, 'point_collector');
-        newAchievements.push('point_collector');
-      }
-
-      return newAchievements;
-    } catch (error) {
-      logger.error('Error checking achievements:', error);
-      // Don't throw - achievement checking should not break the app
-      return [];
-    }
-  }
 }
 
 export default new RankingService();
@@ -0,0 +1,328 @@
+import prisma from '../config/prisma';
+import { Difficulty, ModuleStatus, QuizAttemptStatus } from '@prisma/client';
+import moduleService from './moduleService';
+import prerequisiteService from './prerequisiteService';
+import quizGradingService from './quizGradingService';
+import trendingService from './trendingService';
+
+interface Reason {
+  weight: number;
+  text: string;
+}
+
+const DIFFICULTY_ORDER: Difficulty[] = [
+  Difficulty.BEGINNER,
+  Difficulty.INTERMEDIATE,
+  Difficulty.ADVANCED,
+  Difficulty.EXPERT,
+];
+
+// Lowest user level each difficulty is aimed at
+const DIFFICULTY_MIN_LEVEL: Record<Difficulty, number> = {
+  BEGINNER: 1,
+  INTERMEDIATE: 5,
+  ADVANCED: 15,
+  EXPERT: 30,
+};
+
+const WEIGHTS = {
+  category: 3,
+  levelMatch: 2,
+  levelNear: 0.5,
+  levelFar: -2,
+  failedQuiz: 4,
+  weakCategory: 1.5,
+  peers: 5,
+  trending: 1,
+};
+
+// Categories averaging below this quiz score are worth strengthening
+const WEAK_CATEGORY_SCORE = 70;
+const MAX_PEERS = 200;
+const TRENDING_CANDIDATES = 50;
+
+const percent = (value: number) => `${Math.round(value)}%`;
+
+/**
+ * Recommendation Service
+ * Personalized module suggestions, each with the reason it was picked
+ */
+export class RecommendationService {
+  /**
+   * Recommended modules for a user; finished and locked modules are left out.
+   * Without a user the trending modules are returned.
+   */
+  async getRecommendations(userId: string | undefined, limit: number = 10) {
+    if (!userId) {
+      const { modules } = await trendingService.getTrending({ limit });
+      return modules.map(({ trending, ...module }) => ({
+        ...module,
+        recommendation: {
+          score: trending.score,
+          explanation: 'Trending this week',
+          reasons: ['Trending this week'],
+        },
+      }));
+    }
+
+    const [user, progress, candidates] = await Promise.all([
+      prisma.user.findUnique({ where: { id: userId }, select: { level: true } }),
+      prisma.userProgress.findMany({
+        where: { userId },
+        select: {
+          moduleId: true,
+          status: true,
+          completedAt: true,
+          module: { select: { title: true, category: true } },
+        },
+      }),
+      prisma.module.findMany({
+        where: moduleService.visibleWhere(),
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          category: true,
+          difficulty: true,
+          points: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+
+    const completed = progress.filter((entry) => entry.status === ModuleStatus.COMPLETED);
+    const completedIds = new Set(completed.map((entry) => entry.moduleId));
+    const open = candidates.filter((module) => !completedIds.has(module.id));
+
+    const locks = await prerequisiteService.getLockStates(
+      userId,
+      open.map((module) => module.id)
+    );
+    const unlocked = open.filter((module) => !locks.get(module.id)?.locked);
+
+    const reasons = new Map<string, Reason[]>(unlocked.map((module) => [module.id, []]));
+    const add = (moduleId: string, weight: number, text: string) => {
+      reasons.get(moduleId)?.push({ weight, text });
+    };
+
+    this.addCategoryReasons(progress, unlocked, add);
+    this.addLevelReasons(user?.level ?? 1, unlocked, add);
+    await this.addQuizReasons(userId, unlocked, add);
+    await this.addPeerReasons(userId, completed, add);
+
+    const { modules: trending } = await trendingService.getTrending({ limit: TRENDING_CANDIDATES });
+    const topScore = trending[0]?.trending.score ?? 0;
+    trending.forEach((module) => {
+      if (topScore > 0) {
+        add(module.id, WEIGHTS.trending * (module.trending.score / topScore), 'Trending this week');
+      }
+    });
+
+    return unlocked
+      .map((module) => {
+        const moduleReasons = reasons.get(module.id)!.sort((a, b) => b.weight - a.weight);
+        const score = moduleReasons.reduce((sum, reason) => sum + reason.weight, 0);
+        const positive = moduleReasons.filter((reason) => reason.weight > 0);
+
+        return {
+          ...module,
+          recommendation: {
+            score: Math.round(score * 100) / 100,
+            explanation: positive[0]?.text ?? `Something new in ${module.category}`,
+            reasons: positive.map((reason) => reason.text),
+          },
+        };
+      })
+      .sort((a, b) => b.recommendation.score - a.recommendation.score)
+      .slice(0, limit);
+  }
+
+  // Categories the user spends time in, completed modules counting double
+  private addCategoryReasons(
+    progress: { status: ModuleStatus; module: { category: string } }[],
+    modules: { id: string; category: string }[],
+    add: (moduleId: string, weight: number, text: string) => void
+  ) {
+    const interest = new Map<string, number>();
+    progress.forEach((entry) => {
+      const weight = entry.status === ModuleStatus.COMPLETED ? 2 : 1;
+      interest.set(entry.module.category, (interest.get(entry.module.category) ?? 0) + weight);
+    });
+
+    const total = [...interest.values()].reduce((sum, value) => sum + value, 0);
+    if (total === 0) {
+      return;
+    }
+
+    modules.forEach((module) => {
+      const share = (interest.get(module.category) ?? 0) / total;
+      if (share > 0) {
+        add(module.id, WEIGHTS.category * share, `Matches your interest in ${module.category}`);
+      }
+    });
+  }
+
+  // Modules aimed at the user's level rank up; far too easy or too hard ones rank down
+  private addLevelReasons(
+    level: number,
+    modules: { id: string; difficulty: Difficulty }[],
+    add: (moduleId: string, weight: number, text: string) => void
+  ) {
+    const target =
+      DIFFICULTY_ORDER.filter((difficulty) => level >= DIFFICULTY_MIN_LEVEL[difficulty]).length - 1;
+
+    modules.forEach((module) => {
+      const distance = Math.abs(DIFFICULTY_ORDER.indexOf(module.difficulty) - target);
+      if (distance === 0) {
+        add(module.id, WEIGHTS.levelMatch, `Fits your level (${level})`);
+      } else if (distance === 1) {
+        add(module.id, WEIGHTS.levelNear, `Close to your level (${level})`);
+      } else {
+        add(module.id, WEIGHTS.levelFar, 'Far from your level');
+      }
+    });
+  }
+
+  // Failed quizzes point back to their module; low-scoring categories get easier modules
+  private async addQuizReasons(
+    userId: string,
+    modules: { id: string; category: string; difficulty: Difficulty }[],
+    add: (moduleId: string, weight: number, text: string) => void
+  ) {
+    const results = await prisma.quizResult.findMany({
+      where: { userId, status: { not: QuizAttemptStatus.IN_PROGRESS } },
+      select: {
+        score: true,
+        quiz: {
+          select: {
+            id: true,
+            title: true,
+            moduleId: true,
+            passingScore: true,
+            scoringPolicy: true,
+            module: { select: { category: true } },
+          },
+        },
+      },
+      orderBy: { startedAt: 'asc' },
+    });
+
+    const quizzes = new Map(results.map((result) => [result.quiz.id, result.quiz]));
+    const categoryScores = new Map<string, number[]>();
+
+    quizzes.forEach((quiz) => {
+      const counted = quizGradingService.countedScore(
+        results.filter((result) => result.quiz.id === quiz.id).map((result) => result.score),
+        quiz.scoringPolicy
+      );
+      if (counted === null) {
+        return;
+      }
+
+      const category = quiz.module.category;
+      categoryScores.set(category, [...(categoryScores.get(category) ?? []), counted]);
+
+      if (counted < quiz.passingScore) {
+        add(
+          quiz.moduleId,
+          WEIGHTS.failedQuiz,
+          `You scored ${percent(counted)} on "${quiz.title}"; ${percent(quiz.passingScore)} passes`
+        );
+      }
+    });
+
+    categoryScores.forEach((scores, category) => {
+      const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+      if (average >= WEAK_CATEGORY_SCORE) {
+        return;
+      }
+
+      modules
+        .filter(
+          (module) =>
+            module.category === category &&
+            (module.difficulty === Difficulty.BEGINNER || module.difficulty === Difficulty.INTERMEDIATE)
+        )
+        .forEach((module) =>
+          add(
+            module.id,
+            WEIGHTS.weakCategory,
+            `Strengthens ${category}, where your quizzes average ${percent(average)}`
+          )
+        );
+    });
+  }
+
+  // What learners who completed the same modules went on to complete next
+  private async addPeerReasons(
+    userId: string,
+    completed: { moduleId: string; module: { title: string } }[],
+    add: (moduleId: string, weight: number, text: string) => void
+  ) {
+    if (completed.length === 0) {
+      return;
+    }
+
+    const completedIds = new Set(completed.map((entry) => entry.moduleId));
+    const titles = new Map(completed.map((entry) => [entry.moduleId, entry.module.title]));
+
+    const peers = await prisma.userProgress.groupBy({
+      by: ['userId'],
+      where: {
+        userId: { not: userId },
+        moduleId: { in: [...completedIds] },
+        status: ModuleStatus.COMPLETED,
+      },
+      _count: { moduleId: true },
+      orderBy: { _count: { moduleId: 'desc' } },
+      take: MAX_PEERS,
+    });
+
+    if (peers.length === 0) {
+      return;
+    }
+
+    const peerCompletions = await prisma.userProgress.findMany({
+      where: {
+        userId: { in: peers.map((peer) => peer.userId) },
+        status: ModuleStatus.COMPLETED,
+        completedAt: { not: null },
+      },
+      select: { userId: true, moduleId: true },
+      orderBy: { completedAt: 'asc' },
+    });
+
+    const sequences = new Map<string, string[]>();
+    peerCompletions.forEach((entry) =>
+      sequences.set(entry.userId, [...(sequences.get(entry.userId) ?? []), entry.moduleId])
+    );
+
+    // next module -> source module -> number of peers
+    const next = new Map<string, Map<string, number>>();
+    sequences.forEach((sequence) => {
+      sequence.forEach((moduleId, index) => {
+        const following = sequence[index + 1];
+        if (!completedIds.has(moduleId) || !following || completedIds.has(following)) {
+          return;
+        }
+        const sources = next.get(following) ?? new Map<string, number>();
+        sources.set(moduleId, (sources.get(moduleId) ?? 0) + 1);
+        next.set(following, sources);
+      });
+    });
+
+    next.forEach((sources, moduleId) => {
+      const [source, count] = [...sources.entries()].sort((a, b) => b[1] - a[1])[0]!;
+      const total = [...sources.values()].reduce((sum, value) => sum + value, 0);
+
+      add(
+        moduleId,
+        WEIGHTS.peers * (total / peers.length),
+        `Because you completed "${titles.get(source)}" ` +
+          `(${count} similar learner${count === 1 ? '' : 's'} took this next)`
+      );
+    });
+  }
+}
+
+export default new RecommendationService();
@@ -0,0 +1,338 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { ContentRevision, Prisma, RevisionEntity } from '@prisma/client';
+import adminService from './adminService';
+import questionBankService from './questionBankService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface LineChange {
+  op: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+type Snapshot = Record<string, unknown>;
+
+// Editable content of each entity; publishing state and counters are not revisioned
+const TRACKED_FIELDS: Record<RevisionEntity, string[]> = {
+  MODULE: ['title', 'description', 'category', 'difficulty', 'points', 'content', 'contentBlocks'],
+  LESSON: ['title', 'lessonNumber', 'content', 'contentBlocks', 'duration'],
+  QUIZ: [
+    'title',
+    'questions',
+    'timeLimitSeconds',
+    'pools',
+    'shuffle',
+    'passingScore',
+    'maxAttempts',
+    'cooldownSeconds',
+    'scoringPolicy',
+    'reviewPolicy',
+  ],
+};
+
+const JSON_FIELDS = ['contentBlocks', 'questions', 'pools'];
+
+// Above this many line pairs the line diff falls back to remove-all/add-all
+const MAX_LINE_DIFF_CELLS = 4_000_000;
+const MAX_VERSION_RETRIES = 3;
+
+// JSONB does not keep key order, so snapshots are compared with sorted keys
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Snapshot)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Revision Service
+ * Revision history of modules, lessons and quizzes with comparison and restore
+ */
+export class RevisionService {
+  /**
+   * Record the state of an entity after an edit. When the entity has no history yet,
+   * the state before the edit is stored first so the edit can be undone.
+   */
+  async track(
+    entityType: RevisionEntity,
+    entityId: string,
+    after: object,
+    authorId?: string | null,
+    before?: object | null,
+    restoredFromId?: string
+  ): Promise<ContentRevision | null> {
+    const snapshot = this.snapshotOf(entityType, after);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        let last = await prisma.contentRevision.findFirst({
+          where: { entityType, entityId },
+          orderBy: { version: 'desc' },
+        });
+
+        if (!last && before) {
+          last = await prisma.contentRevision.create({
+            data: {
+              entityType,
+              entityId,
+              version: 1,
+              snapshot: this.snapshotOf(entityType, before) as Prisma.InputJsonObject,
+              diff: [],
+            },
+          });
+        }
+
+        const diff = this.diff((last?.snapshot as Snapshot | undefined) ?? {}, snapshot);
+
+        // Saves without changes add nothing to the history
+        if (last && diff.length === 0 && !restoredFromId) {
+          return null;
+        }
+
+        return await prisma.contentRevision.create({
+          data: {
+            entityType,
+            entityId,
+            version: (last?.version ?? 0) + 1,
+            snapshot: snapshot as Prisma.InputJsonObject,
+            diff: diff as unknown as Prisma.InputJsonArray,
+            authorId: authorId ?? null,
+            restoredFromId,
+          },
+        });
+      } catch (error) {
+        // A concurrent edit took the version number; read the history again
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002' &&
+          attempt < MAX_VERSION_RETRIES
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * History of an entity, newest first, without the snapshots
+   */
+  async getRevisions(entityType: RevisionEntity, entityId: string) {
+    const revisions = await prisma.contentRevision.findMany({
+      where: { entityType, entityId },
+      select: {
+        id: true,
+        version: true,
+        diff: true,
+        restoredFromId: true,
+        createdAt: true,
+        author: { select: { id: true, username: true } },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    return revisions.map(({ diff, ...revision }) => ({
+      ...revision,
+      changedFields: (diff as unknown as FieldChange[]).map((change) => change.field),
+    }));
+  }
+
+  /**
+   * A single revision with its snapshot and diff
+   */
+  async getRevision(revisionId: string) {
+    const revision = await prisma.contentRevision.findUnique({
+      where: { id: revisionId },
+      include: { author: { select: { id: true, username: true } } },
+    });
+
+    if (!revision) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    return revision;
+  }
+
+  /**
+   * Field changes between two revisions of the same entity, with line diffs
+   */
+  async compare(fromId: string, toId: string) {
+    const [from, to] = await Promise.all([this.getRevision(fromId), this.getRevision(toId)]);
+
+    if (from.entityType !== to.entityType || from.entityId !== to.entityId) {
+      throw new ValidationError('Revisions belong to different content');
+    }
+
+    const changes = this.diff(from.snapshot as Snapshot, to.snapshot as Snapshot).map((change) => ({
+      ...change,
+      lines: this.lineDiff(this.asLines(change.before), this.asLines(change.after)),
+    }));
+
+    return {
+      entityType: from.entityType,
+      entityId: from.entityId,
+      from: { id: from.id, version: from.version, createdAt: from.createdAt },
+      to: { id: to.id, version: to.version, createdAt: to.createdAt },
+      changes,
+    };
+  }
+
+  /**
+   * Put an entity back to a revision. The restore becomes a new revision and is
+   * written to the audit log.
+   */
+  async restore(revisionId: string, userId: string, ipAddress?: string) {
+    const revision = await this.getRevision(revisionId);
+    const current = await this.currentState(revision.entityType, revision.entityId);
+
+    if (!current) {
+      throw new NotFoundError('The revisioned content no longer exists');
+    }
+
+    const snapshot = revision.snapshot as Snapshot;
+    const entity = await this.apply(revision.entityType, revision.entityId, snapshot);
+    const restored = await this.track(
+      revision.entityType,
+      revision.entityId,
+      entity,
+      userId,
+      current,
+      revision.id
+    );
+
+    // Audit entries belong to an Admin record; admins by user role may not have one yet
+    const admin = await prisma.admin.upsert({
+      where: { userId },
+      update: {},
+      create: { userId },
+    });
+
+    await adminService.logAction(
+      admin.id,
+      'content.restore',
+      revision.entityType,
+      revision.entityId,
+      { revisionId: revision.id, restoredVersion: revision.version, newVersion: restored?.version },
+      ipAddress
+    );
+
+    logger.info(
+      `User ${userId} restored ${revision.entityType} ${revision.entityId} to version ${revision.version}`
+    );
+
+    return { entity, revision: restored };
+  }
+
+  private snapshotOf(entityType: RevisionEntity, record: object): Snapshot {
+    return Object.fromEntries(
+      TRACKED_FIELDS[entityType].map((field) => [field, (record as Snapshot)[field] ?? null])
+    );
+  }
+
+  private diff(before: Snapshot, after: Snapshot): FieldChange[] {
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+    return fields
+      .filter((field) => stableStringify(before[field]) !== stableStringify(after[field]))
+      .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+  }
+
+  private asLines(value: unknown): string[] {
+    if (value === null || value === undefined) {
+      return [];
+    }
+
+    return (typeof value === 'string' ? value : JSON.stringify(value, null, 2)).split('\n');
+  }
+
+  // Longest common subsequence over lines
+  private lineDiff(before: string[], after: string[]): LineChange[] {
+    if (before.length * after.length > MAX_LINE_DIFF_CELLS) {
+      return [
+        ...before.map((text): LineChange => ({ op: 'remove', text })),
+        ...after.map((text): LineChange => ({ op: 'add', text })),
+      ];
+    }
+
+    const lengths = Array.from({ length: before.length + 1 }, () =>
+      new Array<number>(after.length + 1).fill(0)
+    );
+
+    for (let i = before.length - 1; i >= 0; i--) {
+      for (let j = after.length - 1; j >= 0; j--) {
+        lengths[i]![j] = before[i] === after[j]
+          ? lengths[i + 1]![j + 1]! + 1
+          : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+      }
+    }
+
+    const changes: LineChange[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < before.length && j < after.length) {
+      if (before[i] === after[j]) {
+        changes.push({ op: 'equal', text: before[i]! });
+        i++;
+        j++;
+      } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+        changes.push({ op: 'remove', text: before[i++]! });
+      } else {
+        changes.push({ op: 'add', text: after[j++]! });
+      }
+    }
+
+    before.slice(i).forEach((text) => changes.push({ op: 'remove', text }));
+    after.slice(j).forEach((text) => changes.push({ op: 'add', text }));
+
+    return changes;
+  }
+
+  private currentState(entityType: RevisionEntity, entityId: string): Promise<object | null> {
+    switch (entityType) {
+      case RevisionEntity.MODULE:
+        return prisma.module.findUnique({ where: { id: entityId } });
+      case RevisionEntity.LESSON:
+        return prisma.course.findUnique({ where: { id: entityId } });
+      case RevisionEntity.QUIZ:
+        return prisma.quiz.findUnique({ where: { id: entityId } });
+    }
+  }
+
+  private async apply(entityType: RevisionEntity, entityId: string, snapshot: Snapshot): Promise<object> {
+    // JSON columns need DbNull rather than null to be cleared
+    const data: Snapshot = Object.fromEntries(
+      Object.entries(snapshot).map(([field, value]) => [
+        field,
+        JSON_FIELDS.includes(field) && value === null ? Prisma.DbNull : value,
+      ])
+    );
+
+    switch (entityType) {
+      case RevisionEntity.MODULE:
+        return prisma.module.update({ where: { id: entityId }, data: data as Prisma.ModuleUpdateInput });
+      case RevisionEntity.LESSON:
+        return prisma.course.update({ where: { id: entityId }, data: data as Prisma.CourseUpdateInput });
+      case RevisionEntity.QUIZ:
+        // Banks may have been deleted since the revision was made
+        if (snapshot.pools) {
+          await questionBankService.validatePools(snapshot.pools);
+        }
+        return prisma.quiz.update({ where: { id: entityId }, data: data as Prisma.QuizUpdateInput });
+    }
+  }
+}
+
+export default new RevisionService();
@@ -0,0 +1,224 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { Difficulty, Prisma } from '@prisma/client';
+import moduleService from './moduleService';
+import { sanitizeHtml as escapeHtml } from '../utils/validators';
+import { SEARCH_TYPES, SearchGroup, SearchOptions, SearchType } from '../types/search';
+
+interface ModuleHit {
+  id: string;
+  title: string;
+  description: string | null;
+  category: string;
+  difficulty: Difficulty;
+}
+
+interface LessonHit {
+  id: string;
+  moduleId: string;
+  moduleTitle: string;
+  title: string;
+  lessonNumber: number;
+}
+
+interface ProductHit {
+  id: string;
+  name: string;
+  price: Prisma.Decimal;
+  stock: number;
+  categoryId: string | null;
+}
+
+interface UserHit {
+  id: string;
+  username: string;
+  avatarUrl: string | null;
+  level: number;
+}
+
+interface MessageHit {
+  id: string;
+  userId: string;
+  username: string;
+  createdAt: Date;
+}
+
+type Row<T> = T & { snippet: string | null; score: number; total: bigint };
+
+// Control characters mark matches in ts_headline output so the text can be escaped first
+const MARK_START = '\u0002';
+const MARK_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel="${MARK_START}", StopSel="${MARK_END}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" ... "`;
+
+// Document expressions must stay identical to the indexes in prisma/sql/search_indexes.sql
+const MODULE_DOCUMENT = Prisma.raw(
+  `(setweight(to_tsvector('english', coalesce(m.title, '')), 'A') || ` +
+    `setweight(to_tsvector('english', coalesce(m.description, '')), 'B') || ` +
+    `setweight(to_tsvector('english', coalesce(m.content, '')), 'C') || ` +
+    `setweight(jsonb_to_tsvector('english', coalesce(m.content_blocks, '[]'), '["string"]'), 'C'))`
+);
+const LESSON_DOCUMENT = Prisma.raw(
+  `(setweight(to_tsvector('english', coalesce(c.title, '')), 'A') || ` +
+    `setweight(to_tsvector('english', coalesce(c.content, '')), 'C') || ` +
+    `setweight(jsonb_to_tsvector('english', coalesce(c.content_blocks, '[]'), '["string"]'), 'C'))`
+);
+const PRODUCT_DOCUMENT = Prisma.raw(
+  `(setweight(to_tsvector('english', coalesce(p.name, '')), 'A') || ` +
+    `setweight(to_tsvector('english', coalesce(p.description, '')), 'B'))`
+);
+const USER_DOCUMENT = Prisma.raw(`to_tsvector('english', coalesce(u.bio, ''))`);
+const MESSAGE_DOCUMENT = Prisma.raw(`to_tsvector('english', cm.message_text)`);
+
+// Readable text of content blocks, used for snippets
+const blocksText = (column: string) =>
+  Prisma.raw(
+    `(SELECT string_agg(coalesce(block->>'text', block->>'code', block->>'caption'), ' ') ` +
+      `FROM jsonb_array_elements(CASE WHEN jsonb_typeof(${column}) = 'array' ` +
+      `THEN ${column} ELSE '[]'::jsonb END) AS block)`
+  );
+
+const highlight = (snippet: string | null) =>
+  snippet?.trim()
+    ? escapeHtml(snippet).split(MARK_START).join('<mark>').split(MARK_END).join('</mark>')
+    : null;
+
+/**
+ * Search Service
+ * Full-text search with trigram typo tolerance across modules, lessons, products,
+ * users and chat messages, grouped by type
+ */
+export class SearchService {
+  /**
+   * Search every requested type. Unpublished modules (and their lessons) are only
+   * found by admins, private profiles only by their owner, and messages only by
+   * signed-in users.
+   */
+  async search(query: string, options: SearchOptions = {}) {
+    const { page = 1, limit = 5, userId, role } = options;
+    const q = query.trim();
+    const offset = (page - 1) * limit;
+    const types = (options.types?.length ? options.types : [...SEARCH_TYPES]).filter(
+      (type) => type !== 'messages' || userId
+    );
+
+    const tsquery = Prisma.sql`websearch_to_tsquery('english', ${q})`;
+    const moduleVisibility = moduleService.canPreview(role)
+      ? Prisma.empty
+      : Prisma.sql`AND m.publish_status = 'PUBLISHED' AND (m.publish_at IS NULL OR m.publish_at <= now())`;
+
+    const queries: Record<SearchType, () => Promise<SearchGroup<object>>> = {
+      modules: () =>
+        this.run<ModuleHit>(Prisma.sql`
+          SELECT r.id, r.title, r.description, r.category, r.difficulty, r.score, r.total,
+            ts_headline('english', concat_ws(' ', r.description, r.content, ${blocksText('r.content_blocks')}),
+              ${tsquery}, ${HEADLINE_OPTIONS}) AS snippet
+          FROM (
+            SELECT m.id, m.title, m.description, m.category, m.difficulty, m.content, m.content_blocks,
+              ts_rank(${MODULE_DOCUMENT}, ${tsquery}) + word_similarity(${q}, m.title) AS score,
+              count(*) OVER () AS total
+            FROM modules m
+            WHERE (${MODULE_DOCUMENT} @@ ${tsquery} OR m.title %> ${q}) ${moduleVisibility}
+            ORDER BY score DESC, m.title
+            LIMIT ${limit} OFFSET ${offset}
+          ) r
+          ORDER BY r.score DESC, r.title`),
+
+      lessons: () =>
+        this.run<LessonHit>(Prisma.sql`
+          SELECT r.id, r."moduleId", r."moduleTitle", r.title, r."lessonNumber", r.score, r.total,
+            ts_headline('english', concat_ws(' ', r.content, ${blocksText('r.content_blocks')}),
+              ${tsquery}, ${HEADLINE_OPTIONS}) AS snippet
+          FROM (
+            SELECT c.id, c.module_id AS "moduleId", m.title AS "moduleTitle", c.title,
+              c.lesson_number AS "lessonNumber", c.content, c.content_blocks,
+              ts_rank(${LESSON_DOCUMENT}, ${tsquery}) + word_similarity(${q}, c.title) AS score,
+              count(*) OVER () AS total
+            FROM courses c
+            JOIN modules m ON m.id = c.module_id
+            WHERE (${LESSON_DOCUMENT} @@ ${tsquery} OR c.title %> ${q}) ${moduleVisibility}
+            ORDER BY score DESC, c.title
+            LIMIT ${limit} OFFSET ${offset}
+          ) r
+          ORDER BY r.score DESC, r.title`),
+
+      products: () =>
+        this.run<ProductHit>(Prisma.sql`
+          SELECT r.id, r.name, r.price, r.stock, r."categoryId", r.score, r.total,
+            ts_headline('english', coalesce(r.description, ''), ${tsquery}, ${HEADLINE_OPTIONS}) AS snippet
+          FROM (
+            SELECT p.id, p.name, p.price, p.stock, p.category_id AS "categoryId", p.description,
+              ts_rank(${PRODUCT_DOCUMENT}, ${tsquery}) + word_similarity(${q}, p.name) AS score,
+              count(*) OVER () AS total
+            FROM products p
+            WHERE ${PRODUCT_DOCUMENT} @@ ${tsquery} OR p.name %> ${q}
+            ORDER BY score DESC, p.name
+            LIMIT ${limit} OFFSET ${offset}
+          ) r
+          ORDER BY r.score DESC, r.name`),
+
+      users: () =>
+        this.run<UserHit>(Prisma.sql`
+          SELECT r.id, r.username, r."avatarUrl", r.level, r.score, r.total,
+            ts_headline('english', coalesce(r.bio, ''), ${tsquery}, ${HEADLINE_OPTIONS}) AS snippet
+          FROM (
+            SELECT u.id, u.username, u.avatar_url AS "avatarUrl", u.level, u.bio,
+              ts_rank(${USER_DOCUMENT}, ${tsquery}) + word_similarity(${q}, u.username) AS score,
+              count(*) OVER () AS total
+            FROM users u
+            WHERE (u.username %> ${q} OR ${USER_DOCUMENT} @@ ${tsquery})
+              AND u.status <> 'BANNED'
+              AND ${userId ? Prisma.sql`(u.is_private = false OR u.id = ${userId})` : Prisma.sql`u.is_private = false`}
+            ORDER BY score DESC, u.username
+            LIMIT ${limit} OFFSET ${offset}
+          ) r
+          ORDER BY r.score DESC, r.username`),
+
+      // Encrypted messages are stored as ciphertext and cannot be searched
+      messages: () =>
+        this.run<MessageHit>(Prisma.sql`
+          SELECT r.id, r."userId", r.username, r."createdAt", r.score, r.total,
+            ts_headline('english', r.message_text, ${tsquery}, ${HEADLINE_OPTIONS}) AS snippet
+          FROM (
+            SELECT cm.id, cm.user_id AS "userId", u.username, cm.created_at AS "createdAt", cm.message_text,
+              ts_rank(${MESSAGE_DOCUMENT}, ${tsquery}) AS score,
+              count(*) OVER () AS total
+            FROM chat_messages cm
+            JOIN users u ON u.id = cm.user_id
+            WHERE ${MESSAGE_DOCUMENT} @@ ${tsquery} AND cm.deleted_at IS NULL AND cm.encrypted = false
+            ORDER BY score DESC, cm.created_at DESC
+            LIMIT ${limit} OFFSET ${offset}
+          ) r
+          ORDER BY r.score DESC, r."createdAt" DESC`),
+    };
+
+    try {
+      const groups = await Promise.all(types.map((type) => queries[type]()));
+
+      return {
+        query: q,
+        page,
+        results: Object.fromEntries(types.map((type, index) => [type, groups[index]])) as Partial<
+          Record<SearchType, SearchGroup<object>>
+        >,
+      };
+    } catch (error) {
+      logger.error('Error searching:', error);
+      throw new Error('Failed to search');
+    }
+  }
+
+  private async run<T>(query: Prisma.Sql): Promise<SearchGroup<T>> {
+    const rows = await prisma.$queryRaw<Row<T>[]>(query);
+
+    return {
+      total: Number(rows[0]?.total ?? 0),
+      items: rows.map(({ total: _total, snippet, score, ...hit }) => ({
+        ...(hit as T),
+        snippet: highlight(snippet),
+        score: Math.round(Number(score) * 1000) / 1000,
+      })),
+    };
+  }
+}
+
+export default new SearchService();
@@ -0,0 +1,138 @@
+import { OrderStatus, PointsReason, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import orderService from './orderService';
+import pointsService from './pointsService';
+import shopService from './shopService';
+import { ConflictError, ValidationError } from '../utils/errors';
+
+jest.mock('../config/prisma', () => ({
+  __esModule: true,
+  default: { $transaction: jest.fn(), order: { findUnique: jest.fn() } },
+}));
+jest.mock('../config/logger', () => ({
+  __esModule: true,
+  default: { info: jest.fn(), error: jest.fn() },
+}));
+jest.mock('./couponService', () => ({
+  __esModule: true,
+  default: {
+    getAppliedCoupon: jest.fn().mockResolvedValue(null),
+    priceCart: jest.requireActual('./couponService').default.priceCart,
+  },
+}));
+jest.mock('./orderService', () => ({ __esModule: true, default: { transition: jest.fn() } }));
+jest.mock('./pointsService', () => ({ __esModule: true, default: { debit: jest.fn() } }));
+
+const db = prisma as unknown as {
+  $transaction: jest.Mock;
+  order: { findUnique: jest.Mock };
+};
+
+const tx = {
+  cartItem: { findMany: jest.fn(), deleteMany: jest.fn() },
+  product: { updateMany: jest.fn() },
+  order: { create: jest.fn() },
+};
+
+const cart = [
+  {
+    productId: 'hoodie',
+    quantity: 2,
+    product: {
+      name: 'Hoodie',
+      price: new Prisma.Decimal('40.00'),
+      pointsPrice: 500,
+      categoryId: null,
+    },
+  },
+];
+
+describe('ShopService.checkout', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation((run: (client: typeof tx) => unknown) => run(tx));
+    db.order.findUnique.mockResolvedValue(null);
+    tx.cartItem.findMany.mockResolvedValue(cart);
+    tx.product.updateMany.mockResolvedValue({ count: 1 });
+    tx.order.create.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'order-1', ...data, totalPrice: new Prisma.Decimal(data.totalPrice) })
+    );
+  });
+
+  it('reserves stock and empties the cart', async () => {
+    const { order, replayed } = await shopService.checkout('user-1', { idempotencyKey: 'key-1' });
+
+    expect(replayed).toBe(false);
+    expect(tx.product.updateMany).toHaveBeenCalledWith({
+      where: { id: 'hoodie', stock: { gte: 2 } },
+      data: { stock: { decrement: 2 } },
+    });
+    expect(tx.order.create.mock.calls[0][0].data).toMatchObject({
+      totalPrice: 80,
+      status: OrderStatus.PENDING,
+      idempotencyKey: 'key-1',
+      reservations: { create: [expect.objectContaining({ productId: 'hoodie', quantity: 2 })] },
+    });
+    expect(tx.cartItem.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+    expect(order.id).toBe('order-1');
+  });
+
+  it('returns the earlier order for a repeated idempotency key', async () => {
+    db.order.findUnique.mockResolvedValue({ id: 'order-0' });
+
+    const result = await shopService.checkout('user-1', { idempotencyKey: 'key-1' });
+
+    expect(result).toEqual({ order: { id: 'order-0' }, replayed: true });
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('returns the winning order when a concurrent request used the same key', async () => {
+    db.$transaction.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client,
+      })
+    );
+    db.order.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'order-0' });
+
+    const result = await shopService.checkout('user-1', { idempotencyKey: 'key-1' });
+
+    expect(result).toEqual({ order: { id: 'order-0' }, replayed: true });
+  });
+
+  it('refuses to sell more than is in stock', async () => {
+    tx.product.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(shopService.checkout('user-1')).rejects.toThrow(
+      new ConflictError('Insufficient stock for Hoodie')
+    );
+    expect(tx.order.create).not.toHaveBeenCalled();
+    expect(tx.cartItem.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses an empty cart', async () => {
+    tx.cartItem.findMany.mockResolvedValue([]);
+
+    await expect(shopService.checkout('user-1')).rejects.toThrow(ValidationError);
+  });
+
+  it('debits points in the same transaction and marks a fully covered order paid', async () => {
+    (orderService.transition as jest.Mock).mockResolvedValue({ status: OrderStatus.PAID });
+
+    const { order } = await shopService.checkout('user-1', { usePoints: true });
+
+    expect(pointsService.debit).toHaveBeenCalledWith(
+      'user-1',
+      1000,
+      PointsReason.PURCHASE,
+      { referenceId: 'order-1' },
+      tx
+    );
+    expect(orderService.transition).toHaveBeenCalledWith(
+      'order-1',
+      OrderStatus.PAID,
+      expect.any(Object)
+    );
+    expect(order.status).toBe(OrderStatus.PAID);
+  });
+});
@@ -1,6 +1,13 @@
 import prisma from '../config/prisma';
 import logger from '../config/logger';
-import { OrderStatus } from '@prisma/client';
+import { OrderStatus, PointsReason, Prisma } from '@prisma/client';
+import { ConflictError, ValidationError } from '../utils/errors';
+import couponService from './couponService';
+import orderService from './orderService';
+import pointsService from './pointsService';
+
+// How long checkout holds stock while the user completes payment
+const RESERVATION_TTL_MINUTES = parseInt(process.env.STOCK_RESERVATION_TTL_MINUTES || '15', 10);
 
 export class ShopService {
   /**
@@ -220,68 +227,163 @@ export class ShopService {
 
   /**
    * Create order from cart
+   *
+   * Stock is decremented conditionally inside one transaction and held by
+   * reservations until the order is paid or the hold expires. Retries that
+   * reuse an idempotency key get the original order back. With usePoints,
+   * lines whose product has a points price are paid from the points balance.
    */
-  async checkout(userId: string) {
-    try {
-      // Get cart items
-      const cartItems = await prisma.cartItem.findMany({
-        where: { userId },
-        include: { product: true },
-      });
+  async checkout(userId: string, options: { idempotencyKey?: string; usePoints?: boolean } = {}) {
+    const { idempotencyKey, usePoints = false } = options;
 
-      if (cartItems.length === 0) {
-        throw new Error('Cart is empty');
+    try {
+      if (idempotencyKey) {
+        const existing = await this.findOrderByIdempotencyKey(userId, idempotencyKey);
+        if (existing) {
+          return { order: existing, replayed: true };
+        }
       }
 
-      // Check stock availability
-      for (const item of cartItems) {
-        if (item.product.stock < item.quantity) {
-          throw new Error(`Insufficient stock for ${item.product.name}`);
+      const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+
+      const order = await prisma.$transaction(async (tx) => {
+        const cartItems = await tx.cartItem.findMany({
+          where: { userId },
+          include: { product: true },
+        });
+
+        if (cartItems.length === 0) {
+          throw new ValidationError('Cart is empty');
         }
-      }
 
-      // Calculate total
-      const total = cartItems.reduce(
-        (sum, item) =>
-          sum + Number(item.product.price) * item.quantity,
-        0
-      );
+        // Conditional decrement: only succeeds while enough stock is left
+        for (const item of cartItems) {
+          const { count } = await tx.product.updateMany({
+            where: { id: item.productId, stock: { gte: item.quantity } },
+            data: { stock: { decrement: item.quantity } },
+          });
 
-      // Create order
-      const order = await prisma.order.create({
-        data: {
-          userId,
-          items: cartItems.map((item) => ({
-            productId: item.productId,
-            name: item.product.name,
-            price: Number(item.product.price),
-            quantity: item.quantity,
-          })),
-          totalPrice: total,
-          status: OrderStatus.PENDING,
-        },
-      });
+          if (count === 0) {
+            throw new ConflictError(`Insufficient stock for ${item.product.name}`);
+          }
+        }
 
-      // Update product stock
-      for (const item of cartItems) {
-        await prisma.product.update({
-          where: { id: item.productId },
+        const pointsItems = usePoints
+          ? cartItems.filter((item) => item.product.pointsPrice !== null)
+          : [];
+        const moneyItems = cartItems.filter((item) => !pointsItems.includes(item));
+        const pointsSpent = pointsItems.reduce(
+          (sum, item) => sum + (item.product.pointsPrice ?? 0) * item.quantity,
+          0
+        );
+
+        // Coupons only discount the part paid with money
+        const coupon = moneyItems.length > 0
+          ? await couponService.getAppliedCoupon(userId, tx)
+          : null;
+        if (coupon) {
+          await couponService.assertUsable(coupon, userId, moneyItems, tx);
+        }
+
+        // Line discounts are frozen into the snapshot so later coupon edits never change the order
+        const pricing = couponService.priceCart(moneyItems, coupon);
+
+        const created = await tx.order.create({
           data: {
-            stock: { decrement: item.quantity },
+            userId,
+            items: [
+              ...pricing.lines.map((line) => ({
+                ...line,
+                couponCode: pricing.coupon?.code ?? null,
+              })),
+              ...pointsItems.map((item) => ({
+                productId: item.productId,
+                name: item.product.name,
+                price: Number(item.product.price),
+                quantity: item.quantity,
+                discount: 0,
+                pointsPrice: item.product.pointsPrice,
+              })),
+            ],
+            totalPrice: pricing.total,
+            pointsSpent,
+            status: OrderStatus.PENDING,
+            idempotencyKey,
+            reservations: {
+              create: cartItems.map((item) => ({
+                productId: item.productId,
+                quantity: item.quantity,
+                expiresAt,
+              })),
+            },
+            statusHistory: {
+              create: {
+                toStatus: OrderStatus.PENDING,
+                changedById: userId,
+              },
+            },
           },
+          include: { reservations: true },
         });
-      }
 
-      // Clear cart
-      await this.clearCart(userId);
+        if (coupon && pricing.discount > 0) {
+          await couponService.redeem(tx, coupon, userId, created.id, pricing.discount);
+        }
 
-      return order;
+        if (pointsSpent > 0) {
+          await pointsService.debit(
+            userId,
+            pointsSpent,
+            PointsReason.PURCHASE,
+            { referenceId: created.id },
+            tx
+          );
+        }
+
+        await tx.cartItem.deleteMany({ where: { userId } });
+
+        return created;
+      });
+
+      logger.info(`User ${userId} created order ${order.id}`);
+
+      // Fully covered by points or discounts: nothing left for the payment provider
+      if (Number(order.totalPrice) === 0) {
+        const paid = await orderService.transition(order.id, OrderStatus.PAID, {
+          note: 'Nothing left to pay after points and discounts',
+        });
+        return { order: { ...order, ...paid }, replayed: false };
+      }
+
+      return { order, replayed: false };
     } catch (error) {
+      // A concurrent request with the same key won the race; return its order
+      if (
+        idempotencyKey &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const existing = await this.findOrderByIdempotencyKey(userId, idempotencyKey);
+        if (existing) {
+          return { order: existing, replayed: true };
+        }
+      }
+
       logger.error('Error during checkout:', error);
       throw error;
     }
   }
 
+  /**
+   * Look up an order previously created with the given idempotency key
+   */
+  private async findOrderByIdempotencyKey(userId: string, idempotencyKey: string) {
+    return prisma.order.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey } },
+      include: { reservations: true },
+    });
+  }
+
   /**
    * Get user orders
    */
@@ -0,0 +1,193 @@
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import redis from '../config/redis';
+import moduleService from './moduleService';
+import {
+  TRENDING_WINDOWS,
+  TrendingEntry,
+  TrendingSignals,
+  TrendingSnapshot,
+  TrendingWindow,
+} from '../types/trending';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WINDOW_DAYS: Record<TrendingWindow, number> = { day: 1, week: 7, month: 30 };
+
+// Activity loses half its weight every third of the window
+const HALF_LIFE_FRACTION = 1 / 3;
+
+const WEIGHTS = {
+  enrollment: 3,
+  completion: 5,
+  quizAttempt: 2,
+  // Per minute spent in lessons
+  minute: 0.1,
+};
+
+const CACHE_KEY_PREFIX = 'trending:modules:';
+// Outlives the refresh interval so a failed run keeps the previous ranking
+const CACHE_TTL_SECONDS = 30 * 60;
+const MAX_ENTRIES = 500;
+
+/**
+ * Trending Service
+ * Ranks modules by recent, time-decayed engagement and caches the ranking in Redis
+ */
+export class TrendingService {
+  /**
+   * Trending modules of a window, optionally within one category
+   */
+  async getTrending(options: { window?: TrendingWindow; category?: string; limit?: number } = {}) {
+    const { window = 'week', category, limit = 10 } = options;
+    const snapshot = await this.getSnapshot(window);
+
+    const entries = snapshot.entries.filter((entry) => !category || entry.category === category);
+
+    // The ranking may be a few minutes old; modules unpublished since then are dropped here
+    const modules = await prisma.module.findMany({
+      where: {
+        AND: [moduleService.visibleWhere()],
+        id: { in: entries.map((entry) => entry.moduleId) },
+      },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        category: true,
+        difficulty: true,
+        points: true,
+        createdAt: true,
+      },
+    });
+    const byId = new Map(modules.map((module) => [module.id, module]));
+
+    return {
+      window,
+      computedAt: snapshot.computedAt,
+      modules: entries
+        .filter((entry) => byId.has(entry.moduleId))
+        .slice(0, limit)
+        .map((entry) => ({
+          ...byId.get(entry.moduleId)!,
+          trending: { score: entry.score, ...entry.signals },
+        })),
+    };
+  }
+
+  /**
+   * Recompute and cache the ranking of every window; run on a schedule
+   */
+  async refresh() {
+    for (const window of TRENDING_WINDOWS) {
+      const snapshot = await this.compute(window);
+      await this.store(snapshot);
+    }
+
+    logger.debug('Trending modules refreshed');
+  }
+
+  private async getSnapshot(window: TrendingWindow): Promise<TrendingSnapshot> {
+    try {
+      const cached = await redis.get(`${CACHE_KEY_PREFIX}${window}`);
+
+      if (cached) {
+        return JSON.parse(cached);
+      }
+    } catch (error) {
+      logger.error('Error reading trending cache:', error);
+    }
+
+    const snapshot = await this.compute(window);
+    await this.store(snapshot);
+
+    return snapshot;
+  }
+
+  private async store(snapshot: TrendingSnapshot) {
+    try {
+      await redis.setex(
+        `${CACHE_KEY_PREFIX}${snapshot.window}`,
+        CACHE_TTL_SECONDS,
+        JSON.stringify(snapshot)
+      );
+    } catch (error) {
+      // Without Redis every request computes the ranking itself
+      logger.error('Error caching trending modules:', error);
+    }
+  }
+
+  private async compute(window: TrendingWindow): Promise<TrendingSnapshot> {
+    const now = Date.now();
+    const since = new Date(now - WINDOW_DAYS[window] * DAY_MS);
+    const halfLifeMs = WINDOW_DAYS[window] * DAY_MS * HALF_LIFE_FRACTION;
+    const decay = (at: Date) => Math.pow(0.5, Math.max(0, now - at.getTime()) / halfLifeMs);
+
+    const [enrollments, completions, attempts, lessons] = await Promise.all([
+      prisma.userProgress.findMany({
+        where: { startedAt: { gte: since } },
+        select: { moduleId: true, startedAt: true },
+      }),
+      prisma.userProgress.findMany({
+        where: { completedAt: { gte: since } },
+        select: { moduleId: true, completedAt: true },
+      }),
+      prisma.quizResult.findMany({
+        where: { startedAt: { gte: since } },
+        select: { startedAt: true, quiz: { select: { moduleId: true } } },
+      }),
+      // Lesson time is cumulative, so it is attributed to the last view
+      prisma.lessonProgress.findMany({
+        where: { lastViewedAt: { gte: since }, timeSpent: { gt: 0 } },
+        select: { timeSpent: true, lastViewedAt: true, lesson: { select: { moduleId: true } } },
+      }),
+    ]);
+
+    const scores = new Map<string, { score: number; signals: TrendingSignals }>();
+    const add = (moduleId: string, weight: number, signal: keyof TrendingSignals, amount: number = 1) => {
+      const entry = scores.get(moduleId) ?? {
+        score: 0,
+        signals: { enrollments: 0, completions: 0, quizAttempts: 0, minutesSpent: 0 },
+      };
+      entry.score += weight;
+      entry.signals[signal] += amount;
+      scores.set(moduleId, entry);
+    };
+
+    enrollments.forEach((row) =>
+      add(row.moduleId, WEIGHTS.enrollment * decay(row.startedAt!), 'enrollments')
+    );
+    completions.forEach((row) =>
+      add(row.moduleId, WEIGHTS.completion * decay(row.completedAt!), 'completions')
+    );
+    attempts.forEach((row) =>
+      add(row.quiz.moduleId, WEIGHTS.quizAttempt * decay(row.startedAt), 'quizAttempts')
+    );
+    lessons.forEach((row) => {
+      const minutes = row.timeSpent / 60;
+      add(row.lesson.moduleId, WEIGHTS.minute * minutes * decay(row.lastViewedAt), 'minutesSpent', minutes);
+    });
+
+    const modules = await prisma.module.findMany({
+      where: { AND: [moduleService.visibleWhere()], id: { in: [...scores.keys()] } },
+      select: { id: true, category: true },
+    });
+
+    const entries: TrendingEntry[] = modules
+      .map((module) => {
+        const { score, signals } = scores.get(module.id)!;
+        return {
+          moduleId: module.id,
+          category: module.category,
+          score: Math.round(score * 1000) / 1000,
+          signals: { ...signals, minutesSpent: Math.round(signals.minutesSpent) },
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_ENTRIES);
+
+    return { window, computedAt: new Date(now).toISOString(), entries };
+  }
+}
+
+export default new TrendingService();
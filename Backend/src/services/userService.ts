@@ -1,6 +1,7 @@
 import bcrypt from 'bcrypt';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
+import achievementService from './achievementService';
 import {
   NotFoundError,
   ValidationError,
@@ -42,6 +43,7 @@ class UserService {
         level: user.level,
         total_points: user.totalPoints,
         streak: user.streak,
+        is_private: user.isPrivate,
         created_at: user.createdAt,
         updated_at: user.updatedAt,
       };
@@ -76,6 +78,7 @@ class UserService {
           username: data.username,
           bio: data.bio,
           avatarUrl: data.avatar_url,
+          isPrivate: data.is_private,
         },
       });
 
@@ -256,6 +259,11 @@ class UserService {
 
       logger.info(`User ${followerId} followed ${followingId}`);
 
+      await Promise.all([
+        achievementService.evaluate(followerId, 'follow'),
+        achievementService.evaluate(followingId, 'follow'),
+      ]);
+
       return {
         success: true,
         follower_id: follow.followerId,
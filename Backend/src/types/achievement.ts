@@ -0,0 +1,40 @@
+export const ACHIEVEMENT_METRICS = [
+  'modulesCompleted',
+  'quizzesPassed',
+  'perfectQuizzes',
+  'bestQuizScore',
+  'streak',
+  'level',
+  'experience',
+  'totalPoints',
+  'purchases',
+  'followers',
+  'following',
+  'chatMessages',
+] as const;
+
+export type AchievementMetric = (typeof ACHIEVEMENT_METRICS)[number];
+
+export type AchievementEvent =
+  | 'module_completed'
+  | 'quiz_submitted'
+  | 'points_changed'
+  | 'order_paid'
+  | 'follow'
+  | 'chat_message';
+
+// A definition is earned once every condition reaches its minimum
+export interface AchievementCondition {
+  metric: AchievementMetric;
+  min: number;
+}
+
+export interface AchievementDefinitionInput {
+  key: string;
+  name: string;
+  description?: string | null;
+  icon?: string | null;
+  criteria: AchievementCondition[];
+  points?: number;
+  active?: boolean;
+}
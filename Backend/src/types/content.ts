@@ -0,0 +1,55 @@
+export const CONTENT_BLOCK_TYPES = ['markdown', 'image', 'code', 'callout', 'quiz'] as const;
+
+export type ContentBlockType = (typeof CONTENT_BLOCK_TYPES)[number];
+
+export const CALLOUT_VARIANTS = ['info', 'tip', 'warning', 'danger'] as const;
+
+export type CalloutVariant = (typeof CALLOUT_VARIANTS)[number];
+
+export interface MarkdownBlock {
+  type: 'markdown';
+  text: string;
+}
+
+// `url` is an https URL or a path on this server (e.g. /uploads/...)
+export interface ImageBlock {
+  type: 'image';
+  url: string;
+  alt: string;
+  caption?: string;
+}
+
+export interface CodeBlock {
+  type: 'code';
+  code: string;
+  language?: string;
+}
+
+// `text` is markdown
+export interface CalloutBlock {
+  type: 'callout';
+  variant: CalloutVariant;
+  title?: string;
+  text: string;
+}
+
+// Checkpoint linking to a quiz of the same module
+export interface QuizBlock {
+  type: 'quiz';
+  quizId: string;
+  title?: string;
+}
+
+export type ContentBlock = MarkdownBlock | ImageBlock | CodeBlock | CalloutBlock | QuizBlock;
+
+export interface TocEntry {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export interface RenderedContent {
+  html: string;
+  toc: TocEntry[];
+  readingMinutes: number;
+}
@@ -10,6 +10,7 @@ declare global {
         role: UserRole;
       };
       correlationId?: string;
+      rawBody?: Buffer;
     }
   }
 }
@@ -45,3 +45,6 @@ export * from './auth';
 export * from './user';
 export * from './notification';
 export * from './analytics';
+export * from './payment';
+export * from './achievement';
+export * from './quiz';
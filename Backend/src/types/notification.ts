@@ -6,6 +6,7 @@ export enum NotificationType {
   EVENT = 'EVENT',
   MODULE = 'MODULE',
   ORDER = 'ORDER',
+  LEVEL = 'LEVEL',
 }
 
 export interface CreateNotificationData {
@@ -0,0 +1,47 @@
+export type PaymentIntentStatus = 'requires_confirmation' | 'succeeded' | 'failed';
+
+// Refunds are only issued through refundOrder, so no refund events are consumed
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed';
+
+export interface CreateIntentParams {
+  orderId: string;
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentIntent {
+  id: string;
+  clientSecret: string;
+  status: PaymentIntentStatus;
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentConfirmation {
+  id: string;
+  status: PaymentIntentStatus;
+  failureReason?: string;
+}
+
+export interface RefundResult {
+  id: string;
+  amount: number;
+}
+
+export interface PaymentWebhookEvent {
+  type: PaymentEventType;
+  intentId: string;
+  failureReason?: string;
+}
+
+/**
+ * Contract every payment gateway integration has to fulfil
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(params: CreateIntentParams): Promise<PaymentIntent>;
+  confirm(intentId: string, paymentMethod: string): Promise<PaymentConfirmation>;
+  refund(intentId: string, amount: number): Promise<RefundResult>;
+  /** Returns the parsed event, or null when the signature does not match */
+  verifyWebhook(rawBody: Buffer, signature: string): PaymentWebhookEvent | null;
+}
@@ -0,0 +1,150 @@
+export const QUESTION_TYPES = [
+  'single_choice',
+  'multiple_choice',
+  'true_false',
+  'ordering',
+  'matching',
+  'numeric',
+  'short_text',
+] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+interface BaseQuestion {
+  type: QuestionType;
+  question: string;
+  // Relative weight in the quiz score, defaults to 1
+  weight?: number;
+  // Shown in the answer review, with an optional Course (lesson) to revisit
+  explanation?: string;
+  lessonId?: string;
+}
+
+export interface SingleChoiceQuestion extends BaseQuestion {
+  type: 'single_choice';
+  options: string[];
+  correctAnswer: number;
+}
+
+// Partial credit: (correct picks - wrong picks) / correct options, floored at 0
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  type: 'multiple_choice';
+  options: string[];
+  correctAnswers: number[];
+}
+
+export interface TrueFalseQuestion extends BaseQuestion {
+  type: 'true_false';
+  correctAnswer: boolean;
+}
+
+// `items` are stored in the correct order; credit per item in the right position
+export interface OrderingQuestion extends BaseQuestion {
+  type: 'ordering';
+  items: string[];
+}
+
+// Credit per left-hand item matched to its right-hand pair
+export interface MatchingQuestion extends BaseQuestion {
+  type: 'matching';
+  pairs: { left: string; right: string }[];
+}
+
+export interface NumericQuestion extends BaseQuestion {
+  type: 'numeric';
+  correctAnswer: number;
+  tolerance?: number;
+}
+
+export interface ShortTextQuestion extends BaseQuestion {
+  type: 'short_text';
+  acceptedAnswers: string[];
+  caseSensitive?: boolean;
+}
+
+export type QuizQuestion =
+  | SingleChoiceQuestion
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | OrderingQuestion
+  | MatchingQuestion
+  | NumericQuestion
+  | ShortTextQuestion;
+
+/**
+ * How a question set is presented. Attempts of shuffled quizzes reorder every option
+ * list; other quizzes use a fixed seed per quiz and only reorder ordering items and
+ * matching targets, whose stored order is the answer key.
+ */
+export interface QuizLayout {
+  seed: string;
+  shuffleOptions: boolean;
+}
+
+/**
+ * Answer shapes per question type, keyed by question index in submissions:
+ * single_choice: option index, multiple_choice: option indexes, true_false: boolean,
+ * ordering: item indexes in the chosen order, matching: right index per left index,
+ * numeric: number, short_text: string
+ */
+export type QuizAnswer = number | number[] | boolean | string;
+
+export interface QuestionScore {
+  credit: number;
+  weight: number;
+  earned: number;
+}
+
+export interface QuizGrade {
+  score: number;
+  earnedPoints: number;
+  maxPoints: number;
+  correctAnswers: number;
+  totalQuestions: number;
+  questionScores: QuestionScore[];
+}
+
+// Draw rule on a quiz: `count` random questions from a question bank per attempt
+export interface QuizPool {
+  bankId: string;
+  count: number;
+}
+
+// Question frozen on an attempt; `ref` is the bank question id or `quiz:<index>`
+export type DrawnQuestion = QuizQuestion & { ref: string };
+
+export interface DistractorStat {
+  // Option index, or the boolean for true_false questions
+  value: number | boolean;
+  text: string;
+  correct: boolean;
+  count: number;
+  percent: number;
+}
+
+export type ItemFlag = 'nobody_correct' | 'everybody_correct';
+
+export interface QuizItemStat {
+  ref: string;
+  type: QuestionType;
+  question: string;
+  responses: number;
+  // Share of responses with full credit
+  percentCorrect: number;
+  averageCredit: number;
+  // Upper minus lower 27% (by total score) average credit; null below two responses
+  discrimination: number | null;
+  averageTimeSeconds: number | null;
+  distractors: DistractorStat[] | null;
+  flags: ItemFlag[];
+}
+
+export const QUIZ_FORMATS = ['gift', 'csv'] as const;
+
+export type QuizFormat = (typeof QUIZ_FORMATS)[number];
+
+// Problem found while importing, pointing at the first line of the question or row
+export interface QuizImportError {
+  line: number;
+  message: string;
+}
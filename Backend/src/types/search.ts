@@ -0,0 +1,18 @@
+export const SEARCH_TYPES = ['modules', 'lessons', 'products', 'users', 'messages'] as const;
+
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface SearchOptions {
+  types?: SearchType[];
+  page?: number;
+  // Per result group
+  limit?: number;
+  userId?: string;
+  role?: string;
+}
+
+// `snippet` is HTML-escaped text with matches wrapped in <mark>
+export interface SearchGroup<T> {
+  total: number;
+  items: (T & { snippet: string | null; score: number })[];
+}
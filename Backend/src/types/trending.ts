@@ -0,0 +1,25 @@
+export const TRENDING_WINDOWS = ['day', 'week', 'month'] as const;
+
+export type TrendingWindow = (typeof TRENDING_WINDOWS)[number];
+
+// Engagement within the window, before time decay
+export interface TrendingSignals {
+  enrollments: number;
+  completions: number;
+  quizAttempts: number;
+  minutesSpent: number;
+}
+
+export interface TrendingEntry {
+  moduleId: string;
+  category: string;
+  score: number;
+  signals: TrendingSignals;
+}
+
+// Cached ranking of one window, shared by all categories
+export interface TrendingSnapshot {
+  window: TrendingWindow;
+  computedAt: string;
+  entries: TrendingEntry[];
+}
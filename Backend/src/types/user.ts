@@ -7,6 +7,7 @@ export interface UserProfile {
   level: number;
   total_points: number;
   streak: number;
+  is_private: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -28,6 +29,7 @@ export interface UpdateProfileData {
   username?: string;
   bio?: string;
   avatar_url?: string;
+  is_private?: boolean;
 }
 
 export interface ChangePasswordData {
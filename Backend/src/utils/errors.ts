@@ -47,6 +47,12 @@ export class RateLimitError extends AppError {
   }
 }
 
+export class ServiceUnavailableError extends AppError {
+  constructor(message: string = 'Service unavailable') {
+    super(message, 503);
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = 'Internal server error') {
     super(message, 500, false);
@@ -63,12 +63,12 @@ export const unique = <T>(array: T[]): T[] => {
 };
 
 /**
- * Shuffle array randomly
+ * Shuffle array randomly (pass a seeded random source for a reproducible order)
  */
-export const shuffle = <T>(array: T[]): T[] => {
+export const shuffle = <T>(array: T[], random: () => number = Math.random): T[] => {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     const temp = shuffled[i];
     shuffled[i] = shuffled[j] as T;
     shuffled[j] = temp as T;
@@ -76,6 +76,20 @@ export const shuffle = <T>(array: T[]): T[] => {
   return shuffled;
 };
 
+/**
+ * Deterministic pseudo-random source (mulberry32) derived from a string seed
+ */
+export const seededRandom = (seed: string): (() => number) => {
+  let state = crypto.createHash('sha256').update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
 /**
  * Deep clone an object
  */
@@ -2,7 +2,8 @@ import { Server as SocketServer, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
 import logger from '../config/logger';
 import { verifyToken } from '../middleware/auth';
-import { chatService } from '../services';
+import { chatService, accountStatusService } from '../services';
+import { RankingUpdate } from './types';
 
 interface AuthSocket extends Socket {
   userId?: string;
@@ -49,6 +50,9 @@ export class ChatGateway {
         socket.userId = decoded.userId || decoded.id || '';
         socket.username = decoded.username || decoded.email || '';
 
+        // Reject banned or suspended accounts
+        await accountStatusService.assertUserActive(socket.userId);
+
         logger.info(`User ${socket.username} authenticated via WebSocket`);
         next();
       } catch (error) {
@@ -193,6 +197,10 @@ export class ChatGateway {
     this.io.emit('notification', notification);
   }
 
+  public broadcastRankingUpdate(update: RankingUpdate) {
+    this.io.emit('ranking:update', update);
+  }
+
   public sendToUser(userId: string, event: string, data: any) {
     const socket = this.connectedUsers.get(userId);
     if (socket) {
@@ -200,6 +208,14 @@ export class ChatGateway {
     }
   }
 
+  public disconnectUser(userId: string) {
+    const socket = this.connectedUsers.get(userId);
+    if (socket) {
+      socket.emit('account:restricted');
+      socket.disconnect(true);
+    }
+  }
+
   public getOnlineUsers(): string[] {
     return Array.from(this.connectedUsers.keys());
   }
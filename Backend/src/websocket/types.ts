@@ -41,5 +41,6 @@ export interface RankingUpdate {
   userId: string;
   rank: number;
   totalPoints: number;
+  level?: number;
   timestamp: Date;
 }